@@ -0,0 +1,94 @@
+import mongoose from 'mongoose';
+import EmailOutbox, { EEmailOutboxStatus } from '../models/emailOutbox.model';
+import { getRetryDelaySeconds, queueEmail } from '../utils/emailOutbox.utils';
+import { createMemoryTransport, setMailTransport, MailTransport } from '../utils/mailTransport.utils';
+
+const message = { to: 'student@example.com', subject: 'Hello', html: '<p>Hi</p>' };
+
+const outboxEmail = (attempts: number, maxAttempts: number) => ({
+  _id: 'email-1',
+  type: 'tracking-link',
+  message: { to: ['student@example.com'], subject: 'Hello', html: '<p>Hi</p>' },
+  attempts,
+  maxAttempts,
+});
+
+const failingTransport: MailTransport = {
+  name: 'failing',
+  sendMail: async () => {
+    throw new Error('Connection refused');
+  },
+};
+
+describe("getRetryDelaySeconds", () => {
+  it("should double the delay after each attempt up to the maximum", () => {
+    expect(getRetryDelaySeconds(1)).toBe(60);
+    expect(getRetryDelaySeconds(2)).toBe(120);
+    expect(getRetryDelaySeconds(3)).toBe(240);
+    expect(getRetryDelaySeconds(20)).toBe(21600);
+  });
+});
+
+describe("queueEmail", () => {
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    Object.defineProperty(mongoose.connection, 'readyState', { configurable: true, get: () => 1 });
+    jest.spyOn(EmailOutbox, 'create').mockResolvedValue({ _id: 'email-1' } as any);
+    updateOne = jest.spyOn(EmailOutbox, 'updateOne').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    delete (mongoose.connection as any).readyState;
+    jest.restoreAllMocks();
+  });
+
+  it("should store the email and log a successful first attempt", async () => {
+    const transport = createMemoryTransport();
+    setMailTransport(transport);
+    jest.spyOn(EmailOutbox, 'findOneAndUpdate').mockResolvedValue(outboxEmail(0, 6) as any);
+
+    expect(await queueEmail(message, { type: 'tracking-link' })).toBe(true);
+
+    expect(transport.messages).toHaveLength(1);
+    const update = updateOne.mock.calls[0][1];
+    expect(update.status).toBe(EEmailOutboxStatus.SENT);
+    expect(update.attempts).toBe(1);
+    expect(update.$push.attemptLog.success).toBe(true);
+  });
+
+  it("should drop the body of a sent email that carries a login link", async () => {
+    setMailTransport(createMemoryTransport());
+    jest.spyOn(EmailOutbox, 'findOneAndUpdate').mockResolvedValue({ ...outboxEmail(0, 6), sensitive: true } as any);
+
+    await queueEmail(message, { type: 'password-reset', sensitive: true });
+
+    expect(EmailOutbox.create).toHaveBeenCalledWith(expect.objectContaining({ sensitive: true }));
+    expect(updateOne.mock.calls[0][1].$unset).toEqual({ lockedUntil: 1, 'message.html': 1, 'message.text': 1 });
+  });
+
+  it("should schedule a retry when an attempt fails", async () => {
+    setMailTransport(failingTransport);
+    jest.spyOn(EmailOutbox, 'findOneAndUpdate').mockResolvedValue(outboxEmail(0, 6) as any);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await queueEmail(message, { type: 'tracking-link' })).toBe(true);
+
+    const update = updateOne.mock.calls[0][1];
+    expect(update.status).toBe(EEmailOutboxStatus.PENDING);
+    expect(update.lastError).toBe('Connection refused');
+    expect(update.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("should mark the email failed after the last attempt", async () => {
+    setMailTransport(failingTransport);
+    jest.spyOn(EmailOutbox, 'findOneAndUpdate').mockResolvedValue(outboxEmail(5, 6) as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await queueEmail(message, { type: 'tracking-link' });
+
+    const update = updateOne.mock.calls[0][1];
+    expect(update.status).toBe(EEmailOutboxStatus.FAILED);
+    expect(update.attempts).toBe(6);
+  });
+});
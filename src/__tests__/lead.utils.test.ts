@@ -0,0 +1,56 @@
+import { LeadConfig } from '../config/leadForms.config';
+import { getLeadRecipients, validateLeadFields } from '../utils/lead.utils';
+
+const config: LeadConfig = {
+  forms: {
+    callback: {
+      type: 'callback',
+      name: 'Callback request',
+      fields: [
+        { name: 'name', label: 'Name', type: 'text', required: true, maxLength: 10 },
+        { name: 'phone', label: 'Phone', type: 'phone', required: true },
+        { name: 'preferredTime', label: 'Preferred time', type: 'select', options: ['Morning', 'Evening'] },
+        { name: 'consent', label: 'Consent', type: 'boolean' },
+      ],
+    },
+  },
+  routing: [
+    { formType: 'callback', when: { field: 'preferredTime', in: ['Evening'] }, to: ['evenings@example.com'] },
+    { formType: 'callback', to: ['calls@example.com'] },
+  ],
+  defaultRecipients: ['admin@example.com'],
+};
+
+describe("validateLeadFields", () => {
+  it("should keep valid schema fields and drop anything else", () => {
+    const { values, errors } = validateLeadFields(config.forms.callback, {
+      name: ' Sam ',
+      phone: '+44 7000 000000',
+      consent: 'true',
+      isAdmin: true,
+    });
+
+    expect(errors).toEqual([]);
+    expect(values).toEqual({ name: 'Sam', phone: '+44 7000 000000', consent: true });
+  });
+
+  it("should report missing and invalid fields", () => {
+    const { errors } = validateLeadFields(config.forms.callback, {
+      name: 'A name that is far too long',
+      preferredTime: 'Midnight',
+    });
+
+    expect(errors.map(error => error.field)).toEqual(['name', 'phone', 'preferredTime']);
+  });
+});
+
+describe("getLeadRecipients", () => {
+  it("should use the first matching rule", () => {
+    expect(getLeadRecipients('callback', { preferredTime: 'Evening' }, config)).toEqual(['evenings@example.com']);
+    expect(getLeadRecipients('callback', { preferredTime: 'Morning' }, config)).toEqual(['calls@example.com']);
+  });
+
+  it("should fall back to the default recipients", () => {
+    expect(getLeadRecipients('contact', {}, config)).toEqual(['admin@example.com']);
+  });
+});
@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createFileTransport, createMemoryTransport, setMailTransport } from '../utils/mailTransport.utils';
+import { sendTrackingLinkEmail, OrderFormData } from '../utils/email.utils';
+
+const formData: OrderFormData = {
+  email: 'student@example.com',
+  countryCode: '+44',
+  phoneNumber: '7000000000',
+  subjectCode: 'CS101',
+  description: 'Essay on algorithms',
+  deadline: '7 days',
+  pages: '5',
+  acceptTerms: true,
+  orderId: 'ODR-TEST-0000-0001',
+};
+
+describe("mail transports", () => {
+  it("should keep sent mail in memory", async () => {
+    const transport = createMemoryTransport();
+    setMailTransport(transport);
+
+    const sent = await sendTrackingLinkEmail(formData, 'https://example.com/track/token');
+
+    expect(sent).toBe(true);
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0].to).toBe('student@example.com');
+    expect(transport.messages[0].html).toContain('https://example.com/track/token');
+  });
+
+  it("should write mail to JSON files", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    const transport = createFileTransport(directory);
+
+    await transport.sendMail({ to: 'student@example.com', subject: 'Hello', html: '<p>Hi</p>' });
+
+    const files = await fs.readdir(directory);
+    expect(files).toHaveLength(1);
+    const message = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+    expect(message.subject).toBe('Hello');
+
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should refuse to send without recipients", async () => {
+    const transport = createMemoryTransport();
+
+    await expect(transport.sendMail({ subject: 'Hello', html: '<p>Hi</p>' })).rejects.toThrow('No recipients defined');
+    expect(transport.messages).toHaveLength(0);
+  });
+});
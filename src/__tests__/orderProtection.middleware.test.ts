@@ -0,0 +1,70 @@
+import { rejectHoneypot, verifyCaptcha } from '../middleware/orderProtection.middleware';
+import { setCaptchaVerifier } from '../utils/captcha.utils';
+
+const createResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+describe("rejectHoneypot", () => {
+  it("should reject submissions that fill in the hidden field", () => {
+    const res = createResponse();
+    const next = jest.fn();
+
+    rejectHoneypot({ body: { website: 'http://spam.example' } }, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should let submissions with an empty hidden field through", () => {
+    const res = createResponse();
+    const next = jest.fn();
+
+    rejectHoneypot({ body: { website: '' } }, res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe("verifyCaptcha", () => {
+  afterEach(() => setCaptchaVerifier(null));
+
+  it("should skip the check when no verifier is configured", async () => {
+    setCaptchaVerifier(null);
+    const next = jest.fn();
+
+    await verifyCaptcha({ body: {} }, createResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("should pass the token to the verifier", async () => {
+    const verify = jest.fn(async ({ token }: { token: string }) => token === 'valid-token');
+    setCaptchaVerifier({ name: 'stub', verify });
+
+    const accepted = jest.fn();
+    await verifyCaptcha({ body: { captchaToken: 'valid-token' }, ip: '127.0.0.1' }, createResponse(), accepted);
+    expect(accepted).toHaveBeenCalled();
+    expect(verify).toHaveBeenCalledWith({ token: 'valid-token', remoteIp: '127.0.0.1' });
+
+    const res = createResponse();
+    const rejected = jest.fn();
+    await verifyCaptcha({ body: { captchaToken: 'bad-token' } }, res, rejected);
+    expect(rejected).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it("should reject submissions without a token", async () => {
+    setCaptchaVerifier({ name: 'stub', verify: jest.fn(async () => true) });
+    const res = createResponse();
+    const next = jest.fn();
+
+    await verifyCaptcha({ body: {} }, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
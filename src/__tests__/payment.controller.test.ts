@@ -0,0 +1,232 @@
+import { Types } from 'mongoose';
+import Order, { EOrderStatus } from '../models/order.model';
+import { Payment, PaymentWebhookEvent, EPaymentStatus } from '../models/payment.model';
+import { createCheckoutSession, handlePaymentWebhook, refundPayment } from '../controllers/payment.controller';
+import { createFakeProvider, getPaymentProvider } from '../utils/payment.utils';
+
+process.env.FAKE_PAYMENT_WEBHOOK_SECRET = 'test-webhook-secret';
+
+const createResponse = () => {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+// Webhook request signed the way the fake provider expects
+const signedWebhook = (event: Record<string, unknown>) => {
+  const rawBody = JSON.stringify(event);
+  return {
+    params: { provider: 'fake' },
+    headers: { 'x-fake-signature': createFakeProvider().signWebhook(rawBody) },
+    rawBody: Buffer.from(rawBody),
+  } as any;
+};
+
+const orderId = new Types.ObjectId();
+const paymentId = new Types.ObjectId();
+
+const succeededEvent = {
+  id: 'fake_evt_1',
+  type: 'payment.succeeded',
+  sessionId: 'fake_cs_1',
+  paymentId: 'fake_pi_1',
+  amount: 40,
+  currency: 'USD',
+};
+
+const createOrder = (amountPaid: number) => ({
+  _id: orderId,
+  status: EOrderStatus.QUOTED,
+  statusHistory: [],
+  quote: { total: 100, currency: 'USD' },
+  amountPaid,
+  save: jest.fn(),
+});
+
+describe("handlePaymentWebhook", () => {
+  beforeEach(() => {
+    jest.spyOn(PaymentWebhookEvent, 'create').mockResolvedValue({} as any);
+    jest.spyOn(PaymentWebhookEvent, 'deleteOne').mockResolvedValue({} as any);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should acknowledge a duplicate event without applying it", async () => {
+    jest.spyOn(PaymentWebhookEvent, 'create').mockRejectedValue({ code: 11000 });
+    const updatePayment = jest.spyOn(Payment, 'findOneAndUpdate');
+    const res = createResponse();
+
+    await handlePaymentWebhook(signedWebhook(succeededEvent), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ received: true, duplicate: true });
+    expect(updatePayment).not.toHaveBeenCalled();
+  });
+
+  it("should ignore webhooks for providers that are not configured", async () => {
+    const res = createResponse();
+
+    await handlePaymentWebhook({ ...signedWebhook(succeededEvent), params: { provider: 'stripe' } }, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(PaymentWebhookEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("should credit a partial payment without marking the order paid", async () => {
+    const payment = { _id: paymentId, order: orderId, amount: 40, currency: 'USD' };
+    jest.spyOn(Payment, 'findOne').mockResolvedValue(payment as any);
+    jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue(payment as any);
+    const order = createOrder(40);
+    const creditOrder = jest.spyOn(Order, 'findOneAndUpdate').mockResolvedValue(order as any);
+
+    await handlePaymentWebhook(signedWebhook(succeededEvent), createResponse());
+
+    expect(creditOrder).toHaveBeenCalledWith(
+      { _id: orderId, paidPayments: { $ne: paymentId } },
+      { $inc: { amountPaid: 40 }, $push: { paidPayments: paymentId } },
+      { new: true }
+    );
+    expect(order.status).toBe(EOrderStatus.QUOTED);
+    expect(order.save).not.toHaveBeenCalled();
+  });
+
+  it("should not credit a payment the provider reports with a different amount", async () => {
+    jest.spyOn(Payment, 'findOne').mockResolvedValue({ _id: paymentId, order: orderId, amount: 10, currency: 'USD' } as any);
+    const markPaid = jest.spyOn(Payment, 'findOneAndUpdate');
+    const creditOrder = jest.spyOn(Order, 'findOneAndUpdate');
+
+    await handlePaymentWebhook(signedWebhook(succeededEvent), createResponse());
+
+    expect(markPaid).not.toHaveBeenCalled();
+    expect(creditOrder).not.toHaveBeenCalled();
+  });
+
+  it("should still credit the order when a retry follows a failed order update", async () => {
+    const payment = { _id: paymentId, order: orderId, amount: 100, currency: 'USD', status: EPaymentStatus.SUCCEEDED };
+    const fullEvent = { ...succeededEvent, amount: 100 };
+    jest.spyOn(Payment, 'findOneAndUpdate')
+      .mockResolvedValueOnce(payment as any)
+      .mockResolvedValueOnce(null);
+    jest.spyOn(Payment, 'findOne')
+      .mockResolvedValueOnce({ ...payment, status: EPaymentStatus.PENDING } as any)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(payment as any);
+    const order = createOrder(100);
+    jest.spyOn(Order, 'findOneAndUpdate')
+      .mockRejectedValueOnce(new Error('connection lost'))
+      .mockResolvedValueOnce(order as any);
+
+    const failed = createResponse();
+    await handlePaymentWebhook(signedWebhook(fullEvent), failed);
+    expect(failed.status).toHaveBeenCalledWith(500);
+    expect(PaymentWebhookEvent.deleteOne).toHaveBeenCalledWith({ provider: 'fake', eventId: 'fake_evt_1' });
+
+    const retried = createResponse();
+    await handlePaymentWebhook(signedWebhook(fullEvent), retried);
+    expect(retried.status).toHaveBeenCalledWith(200);
+    expect(order.status).toBe(EOrderStatus.PAID);
+    expect(order.save).toHaveBeenCalled();
+  });
+});
+
+describe("createCheckoutSession", () => {
+  afterEach(() => {
+    delete process.env.PAYMENT_PROVIDER;
+    jest.restoreAllMocks();
+  });
+
+  it("should not fall back to the fake provider", async () => {
+    const createPayment = jest.spyOn(Payment, 'create');
+    const res = createResponse();
+
+    await createCheckoutSession({ order: createOrder(0), body: {} }, res);
+
+    expect(createPayment).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+
+  it("should send the customer back to the checkout already open", async () => {
+    process.env.PAYMENT_PROVIDER = 'fake';
+    jest.spyOn(Payment, 'findOne').mockResolvedValue({
+      _id: paymentId,
+      providerSessionId: 'fake_cs_1',
+      checkoutUrl: 'http://localhost:3000/payments/fake-checkout?session=fake_cs_1',
+      amount: 60,
+      currency: 'USD',
+      createdAt: new Date(),
+    } as any);
+    const createPayment = jest.spyOn(Payment, 'create');
+    const res = createResponse();
+
+    await createCheckoutSession({ order: createOrder(0), body: { amount: 100 } }, res);
+
+    expect(createPayment).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json.mock.calls[0][0].data.amount).toBe(60);
+  });
+});
+
+describe("refundPayment", () => {
+  const request = (amount?: number) => ({
+    params: { paymentId: paymentId.toString() },
+    body: { amount, reason: 'Duplicate payment' },
+    user: { _id: new Types.ObjectId() },
+  }) as any;
+
+  const payment = {
+    _id: paymentId,
+    order: orderId,
+    provider: 'fake',
+    providerPaymentId: 'fake_pi_1',
+    amount: 100,
+    amountRefunded: 0,
+    currency: 'USD',
+    status: EPaymentStatus.SUCCEEDED,
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Payment, 'findById').mockResolvedValue(payment as any);
+    jest.spyOn(Payment, 'updateOne').mockResolvedValue({} as any);
+    jest.spyOn(Order, 'updateOne').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reserve the amount before refunding part of a payment", async () => {
+    const claim = jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue({ ...payment, amountRefunded: 30 } as any);
+    const providerRefund = jest.spyOn(getPaymentProvider('fake')!, 'refund');
+    const res = createResponse();
+
+    await refundPayment(request(30), res);
+
+    expect(claim).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: paymentId, amountRefunded: 0 }),
+      { $inc: { amountRefunded: 30 } },
+      { new: true }
+    );
+    expect(providerRefund).toHaveBeenCalledWith(expect.objectContaining({ amount: 30 }));
+    expect(Payment.updateOne).toHaveBeenCalledWith(
+      { _id: paymentId, status: EPaymentStatus.SUCCEEDED },
+      { status: EPaymentStatus.PARTIALLY_REFUNDED }
+    );
+    expect(Order.updateOne).toHaveBeenCalledWith({ _id: orderId }, { $inc: { amountRefunded: 30 } });
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("should not call the provider when another refund claimed the payment first", async () => {
+    jest.spyOn(Payment, 'findOneAndUpdate').mockResolvedValue(null);
+    const providerRefund = jest.spyOn(getPaymentProvider('fake')!, 'refund');
+    const res = createResponse();
+
+    await refundPayment(request(), res);
+
+    expect(providerRefund).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+  });
+});
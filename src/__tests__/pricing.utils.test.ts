@@ -0,0 +1,49 @@
+import { calculateQuote } from '../utils/pricing.utils';
+import { PricingConfig } from '../config/pricing.config';
+
+const config: PricingConfig = {
+  currency: 'GBP',
+  basePerPage: 10,
+  minimumCharge: 30,
+  urgencyTiers: [
+    { maxHours: 24, multiplier: 2 },
+    { maxHours: 72, multiplier: 1.5 },
+  ],
+  academicLevelSurcharges: { Masters: 0.25 },
+  subjectSurcharges: { Law: 0.1 },
+};
+
+const now = new Date('2025-01-01T00:00:00Z');
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+describe("calculateQuote", () => {
+  it("should charge the base rate per page when there is no urgency", () => {
+    const quote = calculateQuote({ pages: 5, deadlineAt: hoursFromNow(200) }, config, now);
+    expect(quote.urgencyMultiplier).toBe(1);
+    expect(quote.total).toBe(50);
+    expect(quote.currency).toBe('GBP');
+  });
+
+  it("should apply the first matching urgency tier", () => {
+    expect(calculateQuote({ pages: 5, deadlineAt: hoursFromNow(12) }, config, now).total).toBe(100);
+    expect(calculateQuote({ pages: 5, deadlineAt: hoursFromNow(48) }, config, now).total).toBe(75);
+  });
+
+  it("should add academic level and subject surcharges", () => {
+    const quote = calculateQuote(
+      { pages: 4, deadlineAt: hoursFromNow(200), academicLevel: 'Masters', subjectCode: 'LAW-101' },
+      config,
+      now
+    );
+    expect(quote.academicLevelSurcharge).toBe(0.25);
+    expect(quote.subjectSurcharge).toBe(0.1);
+    expect(quote.total).toBe(54);
+  });
+
+  it("should never go below the minimum charge", () => {
+    const quote = calculateQuote({ pages: 1 }, config, now);
+    expect(quote.total).toBe(30);
+    expect(quote.calculatedTotal).toBe(30);
+    expect(quote.overridden).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import Session, { ESessionRevokedReason } from '../models/session.model';
+import { describeUserAgent, rotateRefreshToken } from '../utils/session.utils';
+
+const sessionId = '64b7f0c2a1b2c3d4e5f60718';
+const req = { headers: { 'user-agent': 'jest' }, ip: '127.0.0.1' } as any;
+const hash = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+describe("rotateRefreshToken", () => {
+  let updateOne: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+    updateOne = jest.spyOn(Session, 'updateOne').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should reject malformed tokens without a lookup", async () => {
+    await expect(rotateRefreshToken('not-a-token', req)).resolves.toEqual({ status: 'invalid' });
+    expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should issue a new token when the current one is presented", async () => {
+    jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue({ _id: sessionId } as any);
+
+    const result = await rotateRefreshToken(`${sessionId}.current`, req);
+
+    expect(result.status).toBe('rotated');
+    if (result.status === 'rotated') {
+      expect(result.refreshToken.startsWith(`${sessionId}.`)).toBe(true);
+      expect(result.refreshToken).not.toBe(`${sessionId}.current`);
+    }
+  });
+
+  it("should revoke the session when an old token is reused", async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue({
+      _id: sessionId,
+      previousTokenHash: hash('newer'),
+      usedTokenHashes: [hash('old'), hash('newer')],
+      rotatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    } as any);
+
+    await expect(rotateRefreshToken(`${sessionId}.old`, req)).resolves.toEqual({ status: 'reused' });
+    expect(updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: sessionId }),
+      expect.objectContaining({ revokedReason: ESessionRevokedReason.REUSE_DETECTED })
+    );
+  });
+
+  it("should not revoke when the previous token is presented straight after a rotation", async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue({
+      _id: sessionId,
+      previousTokenHash: hash('old'),
+      usedTokenHashes: [hash('old')],
+      rotatedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    } as any);
+
+    await expect(rotateRefreshToken(`${sessionId}.old`, req)).resolves.toEqual({ status: 'concurrent' });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should leave the session alone when the secret was never issued", async () => {
+    jest.spyOn(Session, 'findById').mockResolvedValue({
+      _id: sessionId,
+      previousTokenHash: hash('old'),
+      usedTokenHashes: [hash('old')],
+      rotatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    } as any);
+
+    await expect(rotateRefreshToken(`${sessionId}.made-up`, req)).resolves.toEqual({ status: 'invalid' });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("describeUserAgent", () => {
+  it("should name the browser and operating system", () => {
+    expect(describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0'))
+      .toBe('Edge on Windows');
+    expect(describeUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Version/17.0 Mobile/15E148 Safari/604.1'))
+      .toBe('Safari on iOS');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+});
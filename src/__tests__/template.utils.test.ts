@@ -0,0 +1,43 @@
+import { renderTemplate, renderTemplateString, getTemplateSyntaxError } from '../utils/template.utils';
+import { defaultEmailTemplates } from '../templates';
+
+describe("template rendering", () => {
+  it("should escape values in HTML unless they use triple braces", () => {
+    const data = { description: '<script>alert("x")</script>' };
+
+    expect(renderTemplateString('<p>{{description}}</p>', data))
+      .toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+    expect(renderTemplateString('<p>{{{description}}}</p>', data))
+      .toBe('<p><script>alert("x")</script></p>');
+  });
+
+  it("should render conditionals and lists", () => {
+    const source = '{{#if files}}{{#each files}}{{@index}}:{{name}}@{{order}};{{/each}}{{else}}none{{/if}}';
+
+    expect(renderTemplateString(source, { order: 'A1', files: [{ name: 'a' }, { name: 'b' }] }))
+      .toBe('0:a@A1;1:b@A1;');
+    expect(renderTemplateString(source, { files: [] })).toBe('none');
+  });
+
+  it("should only escape the HTML part of an email", () => {
+    const rendered = renderTemplate(
+      { subject: 'Order {{id}}', html: '<b>{{id}}</b>', text: 'Order {{id}}' },
+      { id: 'A&B' }
+    );
+
+    expect(rendered).toEqual({ subject: 'Order A&B', html: '<b>A&amp;B</b>', text: 'Order A&B' });
+  });
+
+  it("should report unbalanced blocks", () => {
+    expect(getTemplateSyntaxError({ subject: 'Hi', html: '{{#if a}}open', text: '' }))
+      .toBe('html: Missing {{/if}}');
+    expect(getTemplateSyntaxError({ subject: 'Hi', html: '{{/each}}', text: '' }))
+      .toBe('html: Unexpected {{/each}}');
+  });
+
+  it("should ship valid built-in templates", () => {
+    for (const template of Object.values(defaultEmailTemplates)) {
+      expect(getTemplateSyntaxError(template)).toBeNull();
+    }
+  });
+});
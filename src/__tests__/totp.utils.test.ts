@@ -0,0 +1,55 @@
+import { base32Decode, base32Encode, generateHotp, generateTotp, getTimeStep, verifyTotp } from '../utils/totp.utils';
+import { EUserRole } from '../models/user.model';
+import {
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  needsTwoFactorSetup,
+} from '../utils/twoFactor.utils';
+
+// RFC 6238 appendix B, SHA-1 secret "12345678901234567890"
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+describe("totp", () => {
+  it("should round trip base32", () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(rfcSecret).toString()).toBe('12345678901234567890');
+  });
+
+  it("should match the RFC 6238 test vectors", () => {
+    expect(generateHotp(rfcSecret, getTimeStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateHotp(rfcSecret, getTimeStep(1111111109 * 1000), 8)).toBe('07081804');
+    expect(generateHotp(rfcSecret, getTimeStep(1234567890 * 1000), 8)).toBe('89005924');
+  });
+
+  it("should accept codes from the neighbouring time steps only", () => {
+    const now = 1234567890 * 1000;
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now), now)).toBe(step);
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now - 30 * 1000), now)).toBe(step - 1);
+    expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now - 90 * 1000), now)).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe("two-factor secrets", () => {
+  it("should decrypt what it encrypted", () => {
+    const encrypted = encryptSecret(rfcSecret);
+    expect(encrypted).not.toContain(rfcSecret);
+    expect(decryptSecret(encrypted)).toBe(rfcSecret);
+  });
+
+  it("should hash recovery codes regardless of formatting", () => {
+    const { codes, records } = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(hashRecoveryCode(codes[0].toUpperCase().replace('-', ' '))).toBe(records[0].hash);
+  });
+
+  it("should not let admins through when the policy can not be loaded", async () => {
+    const admin = { role: EUserRole.ADMIN, twoFactor: { enabled: false } } as any;
+    await expect(needsTwoFactorSetup(admin)).rejects.toThrow();
+    expect(await needsTwoFactorSetup({ ...admin, role: EUserRole.USER })).toBe(false);
+  });
+});
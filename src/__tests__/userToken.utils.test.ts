@@ -0,0 +1,40 @@
+import UserToken, { EUserTokenPurpose } from '../models/userToken.model';
+import { consumeUserToken, createUserToken } from '../utils/userToken.utils';
+
+const userId = '64b7f0c2a1b2c3d4e5f60718';
+const tokenId = '64b7f0c2a1b2c3d4e5f60719';
+
+describe("consumeUserToken", () => {
+  let findOneAndUpdate: jest.SpyInstance;
+  let token: string;
+
+  beforeEach(async () => {
+    jest.spyOn(UserToken, 'deleteMany').mockResolvedValue({} as any);
+    jest.spyOn(UserToken, 'create').mockResolvedValue({ _id: tokenId } as any);
+    findOneAndUpdate = jest.spyOn(UserToken, 'findOneAndUpdate').mockResolvedValue({ _id: tokenId } as any);
+    token = await createUserToken(userId, EUserTokenPurpose.EMAIL_VERIFICATION);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the user for an unused token and mark it as used", async () => {
+    await expect(consumeUserToken(token, EUserTokenPurpose.EMAIL_VERIFICATION)).resolves.toBe(userId);
+    expect(findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: tokenId, usedAt: { $exists: false } }),
+      expect.objectContaining({ usedAt: expect.any(Date) })
+    );
+  });
+
+  it("should reject a token that was already used", async () => {
+    findOneAndUpdate.mockResolvedValue(null);
+    await expect(consumeUserToken(token, EUserTokenPurpose.EMAIL_VERIFICATION)).resolves.toBeNull();
+  });
+
+  it("should reject a token issued for another purpose or tampered with", async () => {
+    await expect(consumeUserToken(token, EUserTokenPurpose.INVITATION)).resolves.toBeNull();
+    await expect(consumeUserToken(`${token}x`, EUserTokenPurpose.EMAIL_VERIFICATION)).resolves.toBeNull();
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -8,6 +8,16 @@ import dashboardRouter from "@/routers/dashboard.routes";
 import userRouter from "@/routers/user.routes";
 import testimonialRouter from "@/routers/testimonial.routes";
 import imageAssetsRouter from "@/routers/imageAssets.routes";
+import paymentRouter from "@/routers/payment.routes";
+import trackingRouter from "@/routers/tracking.routes";
+import writerRouter from "@/routers/writer.routes";
+import cronRouter from "@/routers/cron.routes";
+import discountRouter from "@/routers/discount.routes";
+import emailTemplateRouter from "@/routers/emailTemplate.routes";
+import emailOutboxRouter from "@/routers/emailOutbox.routes";
+import newsletterRouter from "@/routers/newsletter.routes";
+import leadRouter from "@/routers/lead.routes";
+import settingRouter from "@/routers/setting.routes";
 
 const apiRouter = Router();
 
@@ -20,5 +30,15 @@ apiRouter.use("/dashboard", dashboardRouter);
 apiRouter.use("/users", userRouter);
 apiRouter.use("/testimonials", testimonialRouter);
 apiRouter.use("/image-assets", imageAssetsRouter);
+apiRouter.use("/payments", paymentRouter);
+apiRouter.use("/track", trackingRouter);
+apiRouter.use("/writer", writerRouter);
+apiRouter.use("/cron", cronRouter);
+apiRouter.use("/discounts", discountRouter);
+apiRouter.use("/email-templates", emailTemplateRouter);
+apiRouter.use("/email-outbox", emailOutboxRouter);
+apiRouter.use("/newsletter", newsletterRouter);
+apiRouter.use("/leads", leadRouter);
+apiRouter.use("/settings", settingRouter);
 
 export default apiRouter;
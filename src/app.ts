@@ -6,16 +6,29 @@ import { errorHandler } from "@/middleware/errorHandler.middleware";
 
 const app = express();
 
+// Behind a proxy (e.g. Vercel) req.ip must come from X-Forwarded-For, rate limits key on it
+const trustProxy = process.env.TRUST_PROXY || (process.env.VERCEL ? "1" : "");
+if (trustProxy) {
+  app.set("trust proxy", isNaN(Number(trustProxy)) ? trustProxy : Number(trustProxy));
+}
+
 // Configure middleware stack - order matters
-app.use(express.json()); // Parse JSON request bodies
+app.use(
+  express.json({
+    // Keep the raw body around, payment webhooks are signed over the exact bytes received
+    verify: (req: any, res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+); // Parse JSON request bodies
 app.use(cookieParser()); // Parse cookies from request headers
 app.use(
   cors({
     origin: process.env.CLIENT_URL || "http://localhost:3000", // Allow requests only from configured client
     credentials: true, // Enable cookies and authorization headers
     methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
-    exposedHeaders: ["Set-Cookie"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With", "Idempotency-Key"],
+    exposedHeaders: ["Set-Cookie", "Idempotent-Replayed"],
     maxAge: 86400 // CORS preflight cache time (24 hour)
   })
 );
@@ -0,0 +1,21 @@
+export interface BrandConfig {
+  name: string;
+  supportEmail: string;
+  supportWhatsApp: string;
+  websiteUrl: string;
+}
+
+export interface EmailConfig {
+  brand: BrandConfig;
+  customerConfirmationEnabled: boolean; // Send customers a confirmation with their order id and tracking link
+}
+
+export const emailConfig: EmailConfig = {
+  brand: {
+    name: process.env.BRAND_NAME || 'Ping Assignment Help UK',
+    supportEmail: process.env.SUPPORT_EMAIL || process.env.EMAIL_USER || '',
+    supportWhatsApp: process.env.SUPPORT_WHATSAPP || process.env.WHATSAPP_NUMBER || '+447346056050',
+    websiteUrl: process.env.CLIENT_URL || 'http://localhost:3000',
+  },
+  customerConfirmationEnabled: process.env.CUSTOMER_CONFIRMATION_EMAIL_ENABLED === 'true',
+};
@@ -0,0 +1,85 @@
+import { Subjects } from "@/types/subjects";
+
+export type LeadFieldType = 'text' | 'textarea' | 'email' | 'phone' | 'select' | 'boolean' | 'date';
+
+export interface LeadFieldSchema {
+  name: string;
+  label: string;
+  type: LeadFieldType;
+  required?: boolean;
+  maxLength?: number; // Text fields, defaults to 200 (2000 for textarea)
+  options?: string[]; // Allowed values for select fields
+}
+
+export interface LeadFormConfig {
+  type: string; // Used in the submit URL, e.g. POST /api/leads/contact
+  name: string;
+  fields: LeadFieldSchema[];
+}
+
+export interface LeadRoutingRule {
+  formType: string; // "*" matches every form
+  when?: { field: string; in: string[] }; // Only match submissions with one of these values
+  to: string[];
+}
+
+export interface LeadConfig {
+  forms: Record<string, LeadFormConfig>;
+  routing: LeadRoutingRule[]; // Checked in order, the first match decides who is notified
+  defaultRecipients: string[];
+}
+
+// Comma separated addresses, e.g. LEAD_ROUTE_CALLBACK="sales@example.com,calls@example.com"
+const emailsFromEnv = (name: string): string[] =>
+  (process.env[name] || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+const forms: LeadFormConfig[] = [
+  {
+    type: 'contact',
+    name: 'Contact us',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', required: true, maxLength: 100 },
+      { name: 'email', label: 'Email', type: 'email', required: true },
+      { name: 'phone', label: 'Phone', type: 'phone' },
+      { name: 'subject', label: 'Subject', type: 'text', maxLength: 200 },
+      { name: 'message', label: 'Message', type: 'textarea', required: true, maxLength: 5000 },
+    ],
+  },
+  {
+    type: 'callback',
+    name: 'Callback request',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', required: true, maxLength: 100 },
+      { name: 'phone', label: 'Phone', type: 'phone', required: true },
+      { name: 'email', label: 'Email', type: 'email' },
+      { name: 'preferredTime', label: 'Preferred time', type: 'select', options: ['Morning', 'Afternoon', 'Evening'] },
+      { name: 'message', label: 'What is it about?', type: 'textarea', maxLength: 2000 },
+    ],
+  },
+  {
+    type: 'sample-download',
+    name: 'Sample download',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', required: true, maxLength: 100 },
+      { name: 'email', label: 'Email', type: 'email', required: true },
+      { name: 'subject', label: 'Subject', type: 'select', required: true, options: Subjects },
+      { name: 'sampleId', label: 'Sample', type: 'text', maxLength: 100 },
+      { name: 'marketingConsent', label: 'Send me study tips and offers', type: 'boolean' },
+    ],
+  },
+];
+
+export const leadConfig: LeadConfig = {
+  forms: Object.fromEntries(forms.map(form => [form.type, form])),
+  routing: [
+    { formType: 'contact', to: emailsFromEnv('LEAD_ROUTE_CONTACT') },
+    { formType: 'callback', to: emailsFromEnv('LEAD_ROUTE_CALLBACK') },
+    { formType: 'sample-download', to: emailsFromEnv('LEAD_ROUTE_SAMPLE_DOWNLOAD') },
+  ].filter(rule => rule.to.length > 0),
+  defaultRecipients: emailsFromEnv('LEAD_ROUTE_DEFAULT').length > 0
+    ? emailsFromEnv('LEAD_ROUTE_DEFAULT')
+    : [process.env.NOTIFICATION_EMAIL || process.env.EMAIL_USER || ''].filter(Boolean),
+};
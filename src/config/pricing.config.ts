@@ -0,0 +1,47 @@
+export interface UrgencyTier {
+  maxHours: number; // Applies when the deadline is at most this many hours away
+  multiplier: number;
+}
+
+export interface PricingConfig {
+  currency: string;
+  basePerPage: number;
+  minimumCharge: number;
+  urgencyTiers: UrgencyTier[]; // Checked in order, deadlines beyond the last tier use a multiplier of 1
+  academicLevelSurcharges: Record<string, number>; // Fraction of the base price, e.g. 0.25 = +25%
+  subjectSurcharges: Record<string, number>; // Keyed by subject name, matched against the subject code
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+};
+
+export const pricingConfig: PricingConfig = {
+  currency: process.env.PRICING_CURRENCY || 'GBP',
+  basePerPage: numberFromEnv('PRICING_BASE_PER_PAGE', 12),
+  minimumCharge: numberFromEnv('PRICING_MINIMUM_CHARGE', 25),
+  urgencyTiers: [
+    { maxHours: 12, multiplier: 2 },
+    { maxHours: 24, multiplier: 1.75 },
+    { maxHours: 48, multiplier: 1.5 },
+    { maxHours: 72, multiplier: 1.3 },
+    { maxHours: 168, multiplier: 1.1 },
+  ],
+  academicLevelSurcharges: {
+    "High School": 0,
+    "Undergraduate": 0,
+    "Masters": 0.25,
+    "PhD": 0.5,
+  },
+  subjectSurcharges: {
+    "Computer Science": 0.2,
+    "Engineering": 0.2,
+    "Finance": 0.15,
+    "Law": 0.15,
+    "Mathematics": 0.2,
+    "Medical": 0.2,
+    "Nursing": 0.1,
+    "Statistics": 0.2,
+  },
+};
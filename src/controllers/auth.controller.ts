@@ -1,7 +1,68 @@
 import { Request, Response } from "express";
-import User from "@/models/user.model";
+import User, { IUser } from "@/models/user.model";
+import Session, { ESessionRevokedReason } from "@/models/session.model";
+import { ObjectId } from "mongodb";
+import { EUserTokenPurpose } from "@/models/userToken.model";
 import argon2 from "argon2";
-import { sendTokenResponse } from "@/utils/jwt.utils";
+import { clearAuthCookies, sendSessionResponse, sendTokenResponse } from "@/utils/jwt.utils";
+import {
+  getActiveSessions,
+  revokeRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  toSessionSummary,
+} from "@/utils/session.utils";
+import { linkGuestOrdersToUser } from "@/utils/order.utils";
+import {
+  consumeUserToken,
+  getLastTokenSentAt,
+  sendPasswordResetLink,
+  sendVerificationLink,
+} from "@/utils/userToken.utils";
+import { getSetting } from "@/utils/setting.utils";
+import {
+  TWO_FACTOR_SELECT,
+  createTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from "@/utils/twoFactor.utils";
+
+// Same answer whether or not the address has an account waiting for verification
+const RESEND_VERIFICATION_MESSAGE = "If that account still needs verifying, a new link is on its way";
+const FORGOT_PASSWORD_MESSAGE = "If an account exists for that email, a password reset link is on its way";
+const VERIFICATION_RESEND_MINUTES = 5;
+const RESET_RESEND_MINUTES = 5;
+const FORGOT_PASSWORD_MIN_RESPONSE_MS = 500;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Rules for passwords users choose themselves, null when the password is acceptable
+const getPasswordError = (password: unknown): string | null => {
+  if (!password || typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Start the session once every login step has passed
+const completeLogin = async (user: IUser, res: Response, req: Request) => {
+  // Orders placed as a guest with this email show up in the account
+  await linkGuestOrdersToUser(user).catch((error) => {
+    console.error("Error linking guest orders:", error);
+  });
+
+  await sendTokenResponse(user, 200, res, req);
+};
+
+// Queue a reset link unless one went out a moment ago, repeated requests should not flood someone's inbox
+const queuePasswordResetLink = async (user: IUser) => {
+  const lastSentAt = await getLastTokenSentAt(user._id, EUserTokenPurpose.PASSWORD_RESET);
+  if (lastSentAt && lastSentAt > new Date(Date.now() - RESET_RESEND_MINUTES * 60 * 1000)) {
+    return;
+  }
+
+  await sendPasswordResetLink(user);
+};
 
 export const register = async (req: Request, res: Response) => {
   try {
@@ -27,7 +88,21 @@ export const register = async (req: Request, res: Response) => {
     });
 
     await newUser.save();
-    sendTokenResponse(newUser, 201, res, req);
+
+    // The account can log in once the emailed link is opened
+    await sendVerificationLink(newUser);
+
+    res.status(201).json({
+      success: true,
+      message: "Registration successful. Please check your email to verify your account",
+      data: {
+        id: newUser._id,
+        _id: newUser._id,
+        name: newUser.name,
+        email: newUser.email,
+        verified: newUser.verified,
+      },
+    });
 
   } catch (error) {
     res.status(500).json({ error: "Server error during registration" });
@@ -53,31 +128,315 @@ export const login = async (req: Request, res: Response) => {
     }
 
     if (!user.verified) {
-      return res.status(403).json({ error: "Email not verified" });
+      // Invited users confirm their email by accepting the invite, but may still need a super admin to approve them
+      const error = user.emailVerifiedAt ? "Account awaiting approval" : "Email not verified";
+      return res.status(403).json({ error });
+    }
+
+    // The session is only created once the code is checked in POST /api/auth/login/2fa
+    if (user.twoFactor?.enabled) {
+      return res.status(200).json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user),
+      });
     }
 
-    sendTokenResponse(user, 200, res, req);
+    await completeLogin(user, res, req);
 
   } catch (error) {
     res.status(500).json({ error: "Server error during login" });
   }
 };
 
-export const logout = (req: Request, res: Response) => {
-  res.clearCookie('token', {
-    httpOnly: true,
-    secure: true,
-    sameSite: 'none',
-  });
+// POST /api/auth/login/2fa - Second login step with an authenticator or recovery code
+export const verifyLoginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    const userId = typeof challengeToken === "string" ? verifyTwoFactorChallenge(challengeToken) : null;
+    if (!userId) {
+      return res.status(401).json({ error: "Login expired, please enter your password again" });
+    }
+
+    const user = await User.findById(userId).select(TWO_FACTOR_SELECT);
+    if (!user || !user.verified) {
+      return res.status(401).json({ error: "Login expired, please enter your password again" });
+    }
+
+    const method = await verifySecondFactor(user, { code, recoveryCode });
+    if (!method) {
+      return res.status(401).json({ error: "Invalid two-factor code" });
+    }
+
+    if (method === "recovery") {
+      console.warn(`User ${user._id} logged in with a recovery code`);
+    }
+
+    await completeLogin(user, res, req);
+
+  } catch (error) {
+    console.error("Error verifying two-factor login:", error);
+    res.status(500).json({ error: "Server error during login" });
+  }
+};
+
+// POST /api/auth/verify-email/:token - Verify the email address from the emailed link
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const userId = await consumeUserToken(req.params.token as string, EUserTokenPurpose.EMAIL_VERIFICATION);
+    if (!userId) {
+      return res.status(400).json({ error: "Invalid or expired verification link" });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    user.emailVerifiedAt = user.emailVerifiedAt || new Date();
+    user.verified = true;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Email verified successfully. You can now log in",
+    });
+  } catch (error) {
+    console.error("Error verifying email:", error);
+    res.status(500).json({ error: "Server error during email verification" });
+  }
+};
+
+// POST /api/auth/resend-verification - Send a new verification link
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ error: "Email is required" });
+    }
+
+    // Invited users verify through their invite, and verified emails need nothing
+    const user = await User.findOne({ email });
+    if (!user || user.verified || user.emailVerifiedAt || user.invitedBy) {
+      return res.status(200).json({ success: true, message: RESEND_VERIFICATION_MESSAGE });
+    }
+
+    // Do not let repeated requests flood someone's inbox
+    const lastSentAt = await getLastTokenSentAt(user._id, EUserTokenPurpose.EMAIL_VERIFICATION);
+    if (lastSentAt && lastSentAt > new Date(Date.now() - VERIFICATION_RESEND_MINUTES * 60 * 1000)) {
+      return res.status(200).json({ success: true, message: RESEND_VERIFICATION_MESSAGE });
+    }
+
+    await sendVerificationLink(user);
+
+    res.status(200).json({ success: true, message: RESEND_VERIFICATION_MESSAGE });
+  } catch (error) {
+    console.error("Error resending verification email:", error);
+    res.status(500).json({ error: "Server error while resending verification email" });
+  }
+};
+
+// POST /api/auth/accept-invite/:token - Choose a password for an account an admin created
+export const acceptInvite = async (req: Request, res: Response) => {
+  try {
+    const { password } = req.body;
+    const passwordError = getPasswordError(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const userId = await consumeUserToken(req.params.token as string, EUserTokenPurpose.INVITATION);
+    if (!userId) {
+      return res.status(400).json({ error: "Invalid or expired invitation link" });
+    }
+
+    const user = await User.findById(userId);
+    if (!user || user.inviteAcceptedAt) {
+      return res.status(400).json({ error: "Invalid or expired invitation link" });
+    }
+
+    const autoApprove = await getSetting("autoApproveInvitedUsers");
+
+    user.password = await argon2.hash(password);
+    user.inviteAcceptedAt = new Date();
+    user.emailVerifiedAt = user.emailVerifiedAt || new Date();
+    user.verified = user.verified || autoApprove;
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      message: user.verified
+        ? "Invitation accepted. You can now log in"
+        : "Invitation accepted. Your account will be available once an administrator approves it",
+      data: { verified: user.verified },
+    });
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    res.status(500).json({ error: "Server error while accepting invitation" });
+  }
+};
+
+// POST /api/auth/forgot-password - Email a reset link, the answer is the same whether or not the account exists
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ error: "Email is required" });
+    }
+
+    const startedAt = Date.now();
+    const user = await User.findOne({ email });
+    if (user) {
+      // A failure must not answer differently from an unknown address
+      await queuePasswordResetLink(user).catch((error) => {
+        console.error("Error queueing password reset link:", error);
+      });
+    }
+
+    // Both branches answer after the same minimum time so the timing does not tell whether the account exists
+    const remainingMs = FORGOT_PASSWORD_MIN_RESPONSE_MS - (Date.now() - startedAt);
+    if (remainingMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remainingMs));
+    }
+
+    res.status(200).json({ success: true, message: FORGOT_PASSWORD_MESSAGE });
+  } catch (error) {
+    console.error("Error requesting password reset:", error);
+    res.status(500).json({ error: "Server error while requesting password reset" });
+  }
+};
+
+// POST /api/auth/reset-password - Choose a new password with the emailed token, logs out every device
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+    if (!token || typeof token !== "string") {
+      return res.status(400).json({ error: "Reset token is required" });
+    }
+
+    const passwordError = getPasswordError(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const userId = await consumeUserToken(token, EUserTokenPurpose.PASSWORD_RESET);
+    if (!userId) {
+      return res.status(400).json({ error: "Invalid or expired reset link" });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(400).json({ error: "Invalid or expired reset link" });
+    }
+
+    user.password = await argon2.hash(password);
+    await user.save();
+
+    // Whoever had access before the reset loses it
+    await revokeUserSessions(user._id, ESessionRevokedReason.REVOKED);
+    clearAuthCookies(res);
+
+    res.status(200).json({
+      success: true,
+      message: "Password reset successfully. Please log in with your new password",
+    });
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    res.status(500).json({ error: "Server error while resetting password" });
+  }
+};
+
+// POST /api/auth/change-password - Change the password of the logged in user
+// Every existing session is revoked and this device gets a fresh one
+export const changePassword = async (req: any, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    if (!currentPassword || typeof currentPassword !== "string") {
+      return res.status(400).json({ error: "Current password is required" });
+    }
+
+    const passwordError = getPasswordError(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const passwordMatch = await argon2.verify(user.password, currentPassword);
+    if (!passwordMatch) {
+      return res.status(401).json({ error: "Current password is incorrect" });
+    }
+
+    if (await argon2.verify(user.password, newPassword)) {
+      return res.status(400).json({ error: "New password must be different from the current password" });
+    }
+
+    user.password = await argon2.hash(newPassword);
+    await user.save();
+
+    await revokeUserSessions(user._id, ESessionRevokedReason.REVOKED);
+    await sendTokenResponse(user, 200, res, req);
+  } catch (error) {
+    console.error("Error changing password:", error);
+    res.status(500).json({ error: "Server error while changing password" });
+  }
+};
+
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.refreshToken;
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken, ESessionRevokedReason.LOGOUT);
+    }
+  } catch (error) {
+    console.error('Error revoking session on logout:', error);
+  }
+
+  clearAuthCookies(res);
   res.status(200).json({ message: 'Logged out successfully' });
 };
 
-export const refreshToken = (req: any, res: Response) => {
-  const refreshToken = req.cookies.refreshToken;
-  if (!refreshToken) {
-    return res.status(401).json({ error: 'No refresh token provided' });
+// Exchange a refresh token for a new access token, the refresh token is rotated every time
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const refreshToken = req.cookies?.refreshToken;
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(401).json({ error: 'No refresh token provided' });
+    }
+
+    const result = await rotateRefreshToken(refreshToken, req);
+
+    if (result.status === 'concurrent') {
+      // Another request already rotated this token, the client should use the cookie it set
+      return res.status(409).json({ error: 'Refresh token was just rotated, retry with the latest token' });
+    }
+
+    if (result.status !== 'rotated') {
+      clearAuthCookies(res);
+      const error = result.status === 'reused'
+        ? 'Refresh token reuse detected, please log in again'
+        : 'Invalid or expired refresh token';
+      return res.status(401).json({ error });
+    }
+
+    const user = await User.findById(result.session.user);
+    if (!user || !user.verified) {
+      await revokeSession(result.session._id, ESessionRevokedReason.REVOKED);
+      clearAuthCookies(res);
+      return res.status(401).json({ error: 'User no longer has access' });
+    }
+
+    sendSessionResponse(user, result.session, result.refreshToken, 200, res, req);
+
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    res.status(500).json({ error: 'Server error during token refresh' });
   }
-}
+};
 
 export const getCurrentUser = async (req: any, res: Response) => {
   const user = req.user;
@@ -90,4 +449,72 @@ export const getCurrentUser = async (req: any, res: Response) => {
 
   res.status(200).json(userData);
 
-}
\ No newline at end of file
+}
+
+// GET /api/auth/sessions - Devices the user is currently logged in on
+export const getSessions = async (req: any, res: Response) => {
+  try {
+    const sessions = await getActiveSessions(req.user._id);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => toSessionSummary(session, req.sessionId)),
+    });
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    res.status(500).json({ success: false, message: 'Failed to fetch sessions' });
+  }
+};
+
+// DELETE /api/auth/sessions/:id - Log out one device
+export const revokeSessionById = async (req: any, res: Response) => {
+  try {
+    const session = ObjectId.isValid(req.params.id)
+      ? await Session.findOne({ _id: req.params.id, user: req.user._id })
+      : null;
+    if (!session || session.revokedAt) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+
+    await revokeSession(session._id, ESessionRevokedReason.REVOKED);
+
+    const isCurrent = session._id.toString() === req.sessionId;
+    if (isCurrent) {
+      clearAuthCookies(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: isCurrent ? 'Logged out of this device' : 'Session revoked successfully',
+      data: { current: isCurrent },
+    });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ success: false, message: 'Failed to revoke session' });
+  }
+};
+
+// DELETE /api/auth/sessions - Log out every other device, or every device with ?includeCurrent=true
+export const revokeAllSessions = async (req: any, res: Response) => {
+  try {
+    const includeCurrent = req.query.includeCurrent === 'true';
+    const revoked = await revokeUserSessions(
+      req.user._id,
+      ESessionRevokedReason.REVOKED,
+      includeCurrent ? undefined : req.sessionId
+    );
+
+    if (includeCurrent) {
+      clearAuthCookies(res);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `${revoked} session(s) revoked`,
+      data: { revoked },
+    });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    res.status(500).json({ success: false, message: 'Failed to revoke sessions' });
+  }
+};
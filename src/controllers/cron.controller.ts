@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import { runDeadlineCheck } from "@/utils/sla.utils";
+import { processEmailOutbox } from "@/utils/emailOutbox.utils";
+
+// Send deadline alerts and flag overdue orders
+export const runDeadlineCron = async (req: Request, res: Response) => {
+  try {
+    const summary = await runDeadlineCheck();
+
+    res.status(200).json({
+      success: true,
+      message: "Deadline check completed",
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error("Error running deadline check:", error);
+    res.status(500).json({
+      success: false,
+      message: "Deadline check failed",
+      error: error.message,
+    });
+  }
+};
+
+// Send due and retrying emails from the outbox
+export const runEmailOutboxCron = async (req: Request, res: Response) => {
+  try {
+    const summary = await processEmailOutbox();
+
+    res.status(200).json({
+      success: true,
+      message: "Email outbox processed",
+      data: summary,
+    });
+  } catch (error: any) {
+    console.error("Error processing email outbox:", error);
+    res.status(500).json({
+      success: false,
+      message: "Email outbox processing failed",
+      error: error.message,
+    });
+  }
+};
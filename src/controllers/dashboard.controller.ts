@@ -3,6 +3,7 @@ import User, { EUserRole } from "@/models/user.model";
 import Blog from "@/models/blog.model";
 import Sample from "@/models/sample.model";
 import { Service } from "@/models/service.model";
+import Order, { EOrderStatus } from "@/models/order.model";
 import { ObjectId } from "mongodb";
 
 interface DashboardStats {
@@ -17,6 +18,7 @@ interface DashboardStats {
     admin: number;
     superAdmin: number;
     user: number;
+    writer: number;
   };
   contentStatus: {
     publishedBlogs: number;
@@ -29,6 +31,11 @@ interface DashboardStats {
     blogs: number;
     samples: number;
   };
+  orderDeadlines: {
+    overdue: number;
+    dueIn24Hours: number;
+    overdueOrders: any[];
+  };
 }
 
 export const getDashboardStats = async (
@@ -72,6 +79,7 @@ export const getDashboardStats = async (
       admin: await User.countDocuments({ role: EUserRole.ADMIN }),
       superAdmin: await User.countDocuments({ role: EUserRole.SUPER_ADMIN }),
       user: await User.countDocuments({ role: EUserRole.USER }),
+      writer: await User.countDocuments({ role: EUserRole.WRITER }),
     };
 
     // Content status
@@ -90,6 +98,24 @@ export const getDashboardStats = async (
       samples: await Sample.countDocuments({ createdAt: { $gte: thirtyDaysAgo } }),
     };
 
+    // Order deadlines
+    const openStatuses = [EOrderStatus.RECEIVED, EOrderStatus.QUOTED, EOrderStatus.PAID, EOrderStatus.IN_PROGRESS];
+    const next24Hours = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    const orderDeadlines = {
+      overdue: await Order.countDocuments({ status: { $in: openStatuses }, overdue: true }),
+      dueIn24Hours: await Order.countDocuments({
+        status: { $in: openStatuses },
+        deadlineAt: { $gt: new Date(), $lte: next24Hours },
+      }),
+      overdueOrders: await Order.find({ status: { $in: openStatuses }, overdue: true })
+        .select("orderId subjectCode status deadlineAt overdueAt assignment.writer")
+        .populate("assignment.writer", "name")
+        .sort({ deadlineAt: 1 })
+        .limit(5)
+        .lean(),
+    };
+
     const dashboardStats: DashboardStats = {
       totalUsers,
       totalBlogs,
@@ -106,6 +132,7 @@ export const getDashboardStats = async (
         inactiveSamples,
       },
       monthlyGrowth,
+      orderDeadlines,
     };
 
     res.status(200).json({
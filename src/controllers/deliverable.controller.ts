@@ -0,0 +1,230 @@
+import { Request, Response } from 'express';
+import Order, { IOrder, EOrderStatus, EDeliverableKind, ORDER_STATUS_TRANSITIONS } from '@/models/order.model';
+import { MulterFile } from '@/types/multer';
+import { cloudinaryUtils } from '@/utils/cloudinary.utils';
+import { sendOrderDeliveredEmail } from '@/utils/email.utils';
+import { toOrderFormData, toPublicDeliverable, transitionOrderStatus } from '@/utils/order.utils';
+import { getTrackingUrl } from '@/utils/tracking.utils';
+
+// Deliverables can be uploaded once work has been paid for, including revisions after delivery
+const UPLOADABLE_STATUSES = [EOrderStatus.PAID, EOrderStatus.IN_PROGRESS, EOrderStatus.DELIVERED];
+
+const getDownloadTtlSeconds = () => parseInt(process.env.DELIVERABLE_URL_TTL_MINUTES || '15', 10) * 60;
+
+// Remove a rejected upload from Cloudinary, a failed delete must not change the response
+const discardUpload = async (file: MulterFile) => {
+  try {
+    await cloudinaryUtils.deleteFile(file.filename, 'raw', 'authenticated');
+  } catch (error) {
+    console.error('Error removing rejected deliverable upload:', error);
+  }
+};
+
+// Upload a new deliverable version (Admin only)
+export const uploadDeliverable = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { kind = EDeliverableKind.DRAFT, note } = req.body;
+    const file = req.file as MulterFile | undefined;
+
+    if (!file) {
+      return res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+    }
+
+    if (!Object.values(EDeliverableKind).includes(kind)) {
+      await discardUpload(file);
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid deliverable kind',
+        validKinds: Object.values(EDeliverableKind),
+      });
+    }
+
+    const order = await Order.findById(id);
+    if (!order) {
+      await discardUpload(file);
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (!UPLOADABLE_STATUSES.includes(order.status)) {
+      await discardUpload(file);
+      return res.status(400).json({
+        success: false,
+        message: `Cannot upload deliverables for an order with status ${order.status}`,
+      });
+    }
+
+    const latestVersion = order.deliverables.reduce((max, deliverable) => Math.max(max, deliverable.version), 0);
+
+    order.deliverables.push({
+      kind,
+      version: latestVersion + 1,
+      publicId: file.filename, // multer-storage-cloudinary puts the public id in filename
+      name: file.originalname,
+      size: file.size,
+      type: file.mimetype,
+      note,
+      uploadedBy: (req as any).user._id,
+      uploadedAt: new Date(),
+    });
+    await order.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Deliverable uploaded successfully',
+      data: order.deliverables[order.deliverables.length - 1],
+    });
+  } catch (error) {
+    console.error('Error uploading deliverable:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error uploading deliverable',
+    });
+  }
+};
+
+// Mark an order as delivered and email the customer (Admin only)
+export const deliverOrder = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { note } = req.body || {};
+
+    const order = await Order.findById(id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (!order.deliverables.some(deliverable => deliverable.kind === EDeliverableKind.FINAL)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a final deliverable before delivering the order',
+      });
+    }
+
+    const oldStatus = order.status;
+    if (!transitionOrderStatus(order, EOrderStatus.DELIVERED, (req as any).user._id, note)) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot change order status from ${oldStatus} to ${EOrderStatus.DELIVERED}`,
+        allowedTransitions: ORDER_STATUS_TRANSITIONS[oldStatus],
+      });
+    }
+
+    order.deliveredAt = new Date();
+    await order.save();
+
+    const emailQueued = await sendOrderDeliveredEmail(toOrderFormData(order), getTrackingUrl(order));
+
+    res.status(200).json({
+      success: true,
+      message: 'Order delivered successfully',
+      data: {
+        _id: order._id,
+        orderId: order.orderId,
+        status: order.status,
+        deliveredAt: order.deliveredAt,
+        emailQueued,
+      },
+    });
+  } catch (error) {
+    console.error('Error delivering order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error delivering order',
+    });
+  }
+};
+
+// Get a signed download URL for a deliverable (Admin only)
+export const getDeliverableDownloadForAdmin = async (req: Request, res: Response) => {
+  try {
+    const { id, deliverableId } = req.params;
+
+    const order = await Order.findById(id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const deliverable = order.deliverables.find(item => item._id?.toString() === deliverableId);
+    if (!deliverable) {
+      return res.status(404).json({
+        success: false,
+        message: 'Deliverable not found',
+      });
+    }
+
+    const download = cloudinaryUtils.generateSignedDownloadUrl(deliverable.publicId, getDownloadTtlSeconds());
+
+    res.status(200).json({
+      success: true,
+      data: download,
+    });
+  } catch (error) {
+    console.error('Error generating deliverable download:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error generating download link',
+    });
+  }
+};
+
+// List deliverables from the tracking page
+export const getCustomerDeliverables = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        deliverables: order.deliverables.map(toPublicDeliverable),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching customer deliverables:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Get a signed, expiring download URL from the tracking page
+export const getCustomerDeliverableDownload = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+    const { deliverableId } = req.params;
+
+    const deliverable = order.deliverables.find(item => item._id?.toString() === deliverableId);
+    if (!deliverable) {
+      return res.status(404).json({
+        success: false,
+        message: 'Deliverable not found',
+      });
+    }
+
+    const download = cloudinaryUtils.generateSignedDownloadUrl(deliverable.publicId, getDownloadTtlSeconds());
+
+    res.status(200).json({
+      success: true,
+      data: download,
+    });
+  } catch (error) {
+    console.error('Error generating customer deliverable download:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
@@ -0,0 +1,265 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import DiscountCode, { EDiscountType, IDiscountCode } from "@/models/discountCode.model";
+import { parseDeadline } from "@/utils/deadline.utils";
+import { calculateQuote } from "@/utils/pricing.utils";
+import { checkDiscountCode, applyDiscountToQuote, normaliseDiscountCode } from "@/utils/discount.utils";
+
+// Pick the editable fields from the request body
+// On update a missing "active" keeps the stored value, so editing a paused code does not switch it back on
+const getDiscountFields = (body: any, current?: IDiscountCode) => ({
+  code: normaliseDiscountCode(body.code),
+  description: body.description,
+  type: body.type as EDiscountType,
+  value: parseFloat(body.value),
+  active: body.active !== undefined ? body.active === true || body.active === "true" : current?.active ?? true,
+  validFrom: body.validFrom || undefined,
+  validUntil: body.validUntil || undefined,
+  maxRedemptions: body.maxRedemptions || undefined,
+  maxRedemptionsPerCustomer: body.maxRedemptionsPerCustomer || undefined,
+  subjects: body.subjects || [],
+  minPages: body.minPages || undefined,
+  maxPages: body.maxPages || undefined,
+});
+
+// Create discount code (Admin only)
+export const createDiscountCode = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const fields = getDiscountFields(req.body);
+
+    const existingCode = await DiscountCode.findOne({ code: fields.code });
+    if (existingCode) {
+      return res.status(400).json({
+        success: false,
+        message: "A discount code with this code already exists",
+      });
+    }
+
+    const discount = new DiscountCode({
+      ...fields,
+      createdBy: (req as any).user._id,
+    });
+
+    await discount.save();
+
+    res.status(201).json({
+      success: true,
+      message: "Discount code created successfully",
+      data: discount,
+    });
+  } catch (error) {
+    console.error("Error creating discount code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error creating discount code",
+    });
+  }
+};
+
+// Get all discount codes with pagination (Admin only)
+export const getAllDiscountCodes = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const search = req.query.search as string;
+    const active = req.query.active as string;
+
+    const query: any = {};
+    if (active === "true" || active === "false") query.active = active === "true";
+
+    if (search) {
+      query.$or = [
+        { code: { $regex: search, $options: "i" } },
+        { description: { $regex: search, $options: "i" } },
+      ];
+    }
+
+    const discounts = await DiscountCode.find(query)
+      .populate("createdBy", "name email")
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await DiscountCode.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        discounts,
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching discount codes:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching discount codes",
+    });
+  }
+};
+
+// Get discount code by ID (Admin only)
+export const getDiscountCodeById = async (req: Request, res: Response) => {
+  try {
+    const discount = await DiscountCode.findById(req.params.id).populate("createdBy", "name email");
+    if (!discount) {
+      return res.status(404).json({
+        success: false,
+        message: "Discount code not found",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: discount,
+    });
+  } catch (error) {
+    console.error("Error fetching discount code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching discount code",
+    });
+  }
+};
+
+// Update discount code (Admin only)
+export const updateDiscountCode = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const discount = await DiscountCode.findById(req.params.id);
+    if (!discount) {
+      return res.status(404).json({
+        success: false,
+        message: "Discount code not found",
+      });
+    }
+
+    const fields = getDiscountFields(req.body, discount);
+
+    // Orders keep the code they were placed with, so renaming must not clash with another code
+    if (fields.code !== discount.code) {
+      // Per-customer limits count past orders by code, a rename would hand every customer their uses back
+      if (discount.redemptionCount > 0) {
+        return res.status(400).json({
+          success: false,
+          message: "A discount code that has been used cannot be renamed. Create a new code instead",
+        });
+      }
+
+      const existingCode = await DiscountCode.findOne({ code: fields.code });
+      if (existingCode) {
+        return res.status(400).json({
+          success: false,
+          message: "A discount code with this code already exists",
+        });
+      }
+    }
+
+    discount.set(fields);
+    await discount.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Discount code updated successfully",
+      data: discount,
+    });
+  } catch (error) {
+    console.error("Error updating discount code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating discount code",
+    });
+  }
+};
+
+// Delete discount code (Admin only)
+// Orders that used it keep their own copy of the discount
+export const deleteDiscountCode = async (req: Request, res: Response) => {
+  try {
+    const discount = await DiscountCode.findByIdAndDelete(req.params.id);
+    if (!discount) {
+      return res.status(404).json({
+        success: false,
+        message: "Discount code not found",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Discount code deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting discount code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting discount code",
+    });
+  }
+};
+
+// Check a discount code against a quote before submitting an order
+export const validateDiscountForQuote = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: "Validation failed",
+        errors: errors.array(),
+      });
+    }
+
+    const { code, email, pages, deadline, deadlineTimezone, subjectCode, academicLevel } = req.body;
+    const pageCount = parseInt(pages, 10);
+
+    const { discount, error } = await checkDiscountCode(code, { subjectCode, pages: pageCount, email });
+    if (!discount) {
+      return res.status(400).json({
+        success: false,
+        message: error,
+      });
+    }
+
+    // Already checked by validateFutureDeadline
+    const deadlineAt = parseDeadline(String(deadline), { timezone: deadlineTimezone }) as Date;
+
+    const quote = applyDiscountToQuote(
+      calculateQuote({ pages: pageCount, deadlineAt, academicLevel, subjectCode }),
+      discount
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Discount code applied successfully",
+      data: {
+        quote,
+        deadlineAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error validating discount code:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error. Please try again later.",
+    });
+  }
+};
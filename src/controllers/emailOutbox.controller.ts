@@ -0,0 +1,134 @@
+import { Request, Response } from "express";
+import EmailOutbox, { EEmailOutboxStatus, IEmailOutbox } from "@/models/emailOutbox.model";
+import { resendOutboxEmail } from "@/utils/emailOutbox.utils";
+
+// Admins see the body of ordinary emails, never the links in verification, invitation or reset emails
+const toOutboxEmailResponse = (email: IEmailOutbox) => {
+  const data = email.toObject();
+  if (data.sensitive) {
+    delete data.message.html;
+    delete data.message.text;
+  }
+  return data;
+};
+
+// Get outbox emails with pagination, failed ones by default (Admin only)
+export const getOutboxEmails = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = (req.query.status as string) || EEmailOutboxStatus.FAILED;
+    const type = req.query.type as string;
+    const search = req.query.search as string;
+
+    const query: any = {};
+
+    // Status filter, "all" shows every message
+    if (status !== "all") {
+      if (!Object.values(EEmailOutboxStatus).includes(status as EEmailOutboxStatus)) {
+        return res.status(400).json({
+          success: false,
+          message: `Status must be one of: all, ${Object.values(EEmailOutboxStatus).join(", ")}`,
+        });
+      }
+      query.status = status;
+    }
+
+    if (type) query.type = type;
+
+    // Search by order id or recipient
+    if (search) {
+      const pattern = search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.$or = [
+        { orderId: { $regex: pattern, $options: "i" } },
+        { "message.to": { $regex: pattern, $options: "i" } },
+      ];
+    }
+
+    const emails = await EmailOutbox.find(query)
+      .select("-message.html -message.text -attemptLog")
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await EmailOutbox.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        emails,
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching outbox emails:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching outbox emails",
+    });
+  }
+};
+
+// Get an outbox email with its content and delivery log (Admin only)
+// Bodies with login links are left out
+export const getOutboxEmailById = async (req: Request, res: Response) => {
+  try {
+    const email = await EmailOutbox.findById(req.params.id).populate("resentBy", "name email");
+    if (!email) {
+      return res.status(404).json({
+        success: false,
+        message: "Email not found",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toOutboxEmailResponse(email),
+    });
+  } catch (error) {
+    console.error("Error fetching outbox email:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching outbox email",
+    });
+  }
+};
+
+// Resend a failed email straight away (Admin only)
+export const resendFailedEmail = async (req: Request, res: Response) => {
+  try {
+    const existing = await EmailOutbox.findById(req.params.id).select("status");
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: "Email not found",
+      });
+    }
+
+    const email = await resendOutboxEmail(req.params.id as string, (req as any).user._id);
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: `Only failed emails can be resent, this one is ${existing.status}`,
+      });
+    }
+
+    const sent = email.status === EEmailOutboxStatus.SENT;
+
+    res.status(200).json({
+      success: true,
+      message: sent ? "Email resent successfully" : "Resend failed, the email will be retried",
+      data: toOutboxEmailResponse(email),
+    });
+  } catch (error) {
+    console.error("Error resending email:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error resending email",
+    });
+  }
+};
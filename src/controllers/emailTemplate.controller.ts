@@ -0,0 +1,285 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import EmailTemplate from "@/models/emailTemplate.model";
+import { EUserRole } from "@/models/user.model";
+import { emailConfig } from "@/config/email.config";
+import { defaultEmailTemplates } from "@/templates";
+import { getTemplateContent } from "@/utils/emailTemplate.utils";
+import { EmailTemplateContent, getTemplateSyntaxError, renderTemplate } from "@/utils/template.utils";
+
+// Get all email templates with their active version (Admin only)
+export const getAllEmailTemplates = async (req: Request, res: Response) => {
+  try {
+    const stored = await EmailTemplate.find()
+      .select("key activeVersion latestVersion updatedAt")
+      .lean();
+    const storedByKey = new Map(stored.map(item => [item.key, item]));
+
+    const templates = Object.values(defaultEmailTemplates).map(template => {
+      const item = storedByKey.get(template.key);
+      return {
+        key: template.key,
+        description: template.description,
+        superAdminOnly: template.superAdminOnly || false,
+        activeVersion: item?.activeVersion ?? null,
+        latestVersion: item?.latestVersion || 0,
+        updatedAt: item?.updatedAt,
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+    });
+  } catch (error) {
+    console.error("Error fetching email templates:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching email templates",
+    });
+  }
+};
+
+// Get a template with its built-in default, saved versions and sample data (Admin only)
+export const getEmailTemplateByKey = async (req: Request, res: Response) => {
+  try {
+    const { key } = req.params;
+    const template = defaultEmailTemplates[key];
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: "Email template not found",
+      });
+    }
+
+    const stored = await EmailTemplate.findOne({ key })
+      .populate("versions.createdBy", "name email")
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        key: template.key,
+        description: template.description,
+        superAdminOnly: template.superAdminOnly || false,
+        activeVersion: stored?.activeVersion ?? null,
+        latestVersion: stored?.latestVersion || 0,
+        default: {
+          subject: template.subject,
+          html: template.html,
+          text: template.text,
+        },
+        versions: (stored?.versions || []).sort((a, b) => b.version - a.version),
+        sampleData: { brand: emailConfig.brand, ...template.sampleData },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching email template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching email template",
+    });
+  }
+};
+
+// Save a new version of a template, it becomes active unless activate is false (Admin only)
+export const createEmailTemplateVersion = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { key } = req.params;
+    if (!defaultEmailTemplates[key]) {
+      return res.status(404).json({
+        success: false,
+        message: "Email template not found",
+      });
+    }
+
+    // A changed reset or invitation template could send the links somewhere else
+    if (defaultEmailTemplates[key].superAdminOnly && (req as any).user.role !== EUserRole.SUPER_ADMIN) {
+      return res.status(403).json({
+        success: false,
+        message: "Only a super admin can change this template",
+      });
+    }
+
+    const { subject, html, text, note, activate } = req.body;
+    const syntaxError = getTemplateSyntaxError({ subject, html, text });
+    if (syntaxError) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid template syntax in ${syntaxError}`,
+      });
+    }
+
+    const userId = (req as any).user._id;
+
+    // Reserve the next version number atomically so concurrent saves never share one
+    const counter = await EmailTemplate.findOneAndUpdate(
+      { key },
+      { $inc: { latestVersion: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    const version = counter.latestVersion;
+
+    const template = await EmailTemplate.findByIdAndUpdate(
+      counter._id,
+      {
+        $push: { versions: { version, subject, html, text, note, createdBy: userId, createdAt: new Date() } },
+        updatedBy: userId,
+        ...(activate === false || activate === "false" ? {} : { activeVersion: version }),
+      },
+      { new: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Version ${version} saved successfully`,
+      data: {
+        key,
+        version,
+        activeVersion: template?.activeVersion ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error saving email template version:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error saving email template version",
+    });
+  }
+};
+
+// Choose which saved version is sent, null goes back to the built-in template (Admin only)
+export const setActiveEmailTemplateVersion = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { key } = req.params;
+    if (!defaultEmailTemplates[key]) {
+      return res.status(404).json({
+        success: false,
+        message: "Email template not found",
+      });
+    }
+
+    // Same rule as saving a version
+    if (defaultEmailTemplates[key].superAdminOnly && (req as any).user.role !== EUserRole.SUPER_ADMIN) {
+      return res.status(403).json({
+        success: false,
+        message: "Only a super admin can change this template",
+      });
+    }
+
+    const version = req.body.version === undefined || req.body.version === null
+      ? null
+      : parseInt(req.body.version, 10);
+    const userId = (req as any).user._id;
+
+    if (version === null) {
+      await EmailTemplate.updateOne({ key }, { activeVersion: null, updatedBy: userId });
+    } else {
+      const result = await EmailTemplate.updateOne(
+        { key, "versions.version": version },
+        { activeVersion: version, updatedBy: userId }
+      );
+      if (result.matchedCount === 0) {
+        return res.status(404).json({
+          success: false,
+          message: `Version ${version} not found`,
+        });
+      }
+    }
+
+    res.status(200).json({
+      success: true,
+      message: version === null ? "Using the default template" : `Version ${version} is now active`,
+      data: {
+        key,
+        activeVersion: version,
+      },
+    });
+  } catch (error) {
+    console.error("Error setting active email template version:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error setting active email template version",
+    });
+  }
+};
+
+// Render a draft, a saved version or the active template with sample data (Admin only)
+export const previewEmailTemplate = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { key } = req.params;
+    const template = defaultEmailTemplates[key];
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: "Email template not found",
+      });
+    }
+
+    const { subject, html, text, version, data } = req.body || {};
+
+    const saved = await getTemplateContent(key, version !== undefined ? parseInt(version, 10) : undefined);
+    if (!saved) {
+      return res.status(404).json({
+        success: false,
+        message: `Version ${version} not found`,
+      });
+    }
+
+    // Draft parts from the editor take precedence over the saved content
+    const content: EmailTemplateContent = {
+      subject: subject ?? saved.subject,
+      html: html ?? saved.html,
+      text: text ?? saved.text,
+    };
+
+    const syntaxError = getTemplateSyntaxError(content);
+    if (syntaxError) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid template syntax in ${syntaxError}`,
+      });
+    }
+
+    const rendered = renderTemplate(content, {
+      brand: emailConfig.brand,
+      ...template.sampleData,
+      ...(data || {}),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: rendered,
+    });
+  } catch (error) {
+    console.error("Error previewing email template:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error previewing email template",
+    });
+  }
+};
@@ -0,0 +1,203 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import Lead, { ELeadStatus } from "@/models/lead.model";
+import { leadConfig } from "@/config/leadForms.config";
+import { sendLeadNotificationEmail } from "@/utils/email.utils";
+import { getLeadRecipients, toLeadEmailFields, validateLeadFields } from "@/utils/lead.utils";
+
+// Get the lead form types and their fields so the site can render them
+export const getLeadForms = async (req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: Object.values(leadConfig.forms),
+  });
+};
+
+// Submit a lead form, the lead is stored and the routed admins are notified
+export const submitLead = async (req: any, res: Response) => {
+  try {
+    const form = leadConfig.forms[req.params.formType];
+    if (!form) {
+      return res.status(404).json({
+        success: false,
+        message: "Form not found",
+      });
+    }
+
+    const { values, errors } = validateLeadFields(form, req.body?.fields);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        errors,
+      });
+    }
+
+    const recipients = getLeadRecipients(form.type, values);
+    const sourceUrl = typeof req.body.sourceUrl === "string" ? req.body.sourceUrl.slice(0, 500) : undefined;
+
+    const lead = await Lead.create({
+      formType: form.type,
+      name: values.name,
+      email: values.email,
+      phone: values.phone,
+      fields: values,
+      routedTo: recipients,
+      sourceUrl,
+      ip: req.ip,
+      user: req.user?._id,
+    });
+
+    if (recipients.length > 0) {
+      lead.notificationQueued = await sendLeadNotificationEmail(
+        recipients,
+        form,
+        toLeadEmailFields(form, values),
+        { replyTo: values.email, sourceUrl }
+      );
+      await lead.save();
+    }
+
+    res.status(201).json({
+      success: true,
+      message: "Thank you, we will be in touch soon",
+      data: {
+        _id: lead._id,
+        formType: lead.formType,
+      },
+    });
+  } catch (error) {
+    console.error("Error submitting lead:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error. Please try again later.",
+    });
+  }
+};
+
+// Get all leads with pagination (Admin only)
+export const getAllLeads = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const formType = req.query.formType as string;
+    const status = req.query.status as string;
+    const search = req.query.search as string;
+
+    const query: any = {};
+
+    if (formType) query.formType = formType;
+    if (status && Object.values(ELeadStatus).includes(status as ELeadStatus)) {
+      query.status = status;
+    }
+
+    // Search by name, email or phone
+    if (search) {
+      const pattern = search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.$or = [
+        { name: { $regex: pattern, $options: "i" } },
+        { email: { $regex: pattern, $options: "i" } },
+        { phone: { $regex: pattern, $options: "i" } },
+      ];
+    }
+
+    const leads = await Lead.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await Lead.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        leads,
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching leads:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching leads",
+    });
+  }
+};
+
+// Get a single lead (Admin only)
+export const getLeadById = async (req: Request, res: Response) => {
+  try {
+    const lead = await Lead.findById(req.params.id)
+      .populate("user", "name email")
+      .populate("updatedBy", "name email");
+
+    if (!lead) {
+      return res.status(404).json({
+        success: false,
+        message: "Lead not found",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...lead.toObject(),
+        form: leadConfig.forms[lead.formType],
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching lead:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching lead",
+    });
+  }
+};
+
+// Update the status of a lead (Admin only)
+export const updateLeadStatus = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { status, note } = req.body;
+
+    const lead = await Lead.findById(req.params.id);
+    if (!lead) {
+      return res.status(404).json({
+        success: false,
+        message: "Lead not found",
+      });
+    }
+
+    lead.status = status;
+    if (note !== undefined) lead.note = note;
+    lead.updatedBy = (req as any).user._id;
+
+    // Keep the first time each stage was reached
+    if (status === ELeadStatus.CONTACTED && !lead.contactedAt) lead.contactedAt = new Date();
+    if (status === ELeadStatus.CONVERTED && !lead.convertedAt) lead.convertedAt = new Date();
+
+    await lead.save();
+
+    res.status(200).json({
+      success: true,
+      message: "Lead updated successfully",
+      data: lead,
+    });
+  } catch (error) {
+    console.error("Error updating lead:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating lead",
+    });
+  }
+};
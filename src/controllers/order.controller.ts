@@ -1,12 +1,33 @@
 import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import crypto from 'crypto';
 import { body, validationResult } from 'express-validator';
 import { 
   sendOrderNotificationEmail, 
-//   sendCustomerConfirmationEmail, 
+  sendCustomerConfirmationEmail, 
+  sendTrackingLinkEmail,
   generateWhatsAppURL,
   OrderFormData 
 } from '@/utils/email.utils';
 import { MulterFile } from '@/types/multer';
+import Order, { EOrderStatus, ORDER_STATUS_TRANSITIONS } from '@/models/order.model';
+import { IDiscountCode } from '@/models/discountCode.model';
+import { parseDeadline, validateFutureDeadline, isValidTimezone, DEFAULT_TIMEZONE } from '@/utils/deadline.utils';
+import {
+  transitionOrderStatus,
+  buildAdminOrderFilter,
+  AdminOrderQuery,
+  toOrderFormData,
+  toTrackedOrder,
+  linkGuestOrdersToUser,
+} from '@/utils/order.utils';
+import { calculateQuote, roundCurrency } from '@/utils/pricing.utils';
+import { checkDiscountCode, redeemDiscountCode, releaseDiscountRedemption, applyDiscountToQuote } from '@/utils/discount.utils';
+import { AcademicLevels } from '@/types/academicLevels';
+import { getTrackingUrl } from '@/utils/tracking.utils';
+import { emailConfig } from '@/config/email.config';
+import { pricingConfig } from '@/config/pricing.config';
+import { cloudinaryUtils } from '@/utils/cloudinary.utils';
 
 // Validation rules for order submission
 export const validateOrderSubmission = [
@@ -39,7 +60,13 @@ export const validateOrderSubmission = [
   
   body('deadline')
     .notEmpty()
-    .withMessage('Deadline is required'),
+    .withMessage('Deadline is required')
+    .bail()
+    .custom(validateFutureDeadline),
+  body('deadlineTimezone')
+    .optional()
+    .custom((value) => isValidTimezone(value))
+    .withMessage('Deadline timezone must be a valid IANA timezone, e.g. Europe/London'),
   
   body('pages')
     .notEmpty()
@@ -49,6 +76,17 @@ export const validateOrderSubmission = [
     .isInt({ min: 1, max: 1000 })
     .withMessage('Pages must be between 1 and 1000'),
   
+  body('academicLevel')
+    .optional()
+    .isIn(AcademicLevels)
+    .withMessage(`Academic level must be one of: ${AcademicLevels.join(', ')}`),
+  
+  body('discountCode')
+    .optional({ values: 'falsy' })
+    .trim()
+    .isLength({ max: 40 })
+    .withMessage('Discount code must not exceed 40 characters'),
+  
   body('acceptTerms')
     .isBoolean()
     .withMessage('Terms acceptance must be a boolean')
@@ -65,6 +103,73 @@ export const validateOrderSubmission = [
     .withMessage('Attached file must be a string'),
 ];
 
+// Validation rules for quote requests
+export const validateQuoteRequest = [
+  body('pages')
+    .notEmpty()
+    .withMessage('Number of pages is required')
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Pages must be between 1 and 1000'),
+
+  body('deadline')
+    .notEmpty()
+    .withMessage('Deadline is required')
+    .bail()
+    .custom(validateFutureDeadline),
+  body('deadlineTimezone')
+    .optional()
+    .custom((value) => isValidTimezone(value))
+    .withMessage('Deadline timezone must be a valid IANA timezone, e.g. Europe/London'),
+
+  body('subjectCode')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Subject code must be between 2 and 100 characters'),
+
+  body('academicLevel')
+    .optional()
+    .isIn(AcademicLevels)
+    .withMessage(`Academic level must be one of: ${AcademicLevels.join(', ')}`),
+];
+
+// Validation rules for admin order updates
+export const validateOrderUpdate = [
+  body('email')
+    .optional()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+
+  body('phoneNumber')
+    .optional()
+    .isLength({ min: 6, max: 15 })
+    .withMessage('Phone number must be between 6 and 15 digits'),
+
+  body('subjectCode')
+    .optional()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Subject code must be between 2 and 100 characters'),
+
+  body('description')
+    .optional()
+    .isLength({ min: 10, max: 2000 })
+    .withMessage('Description must be between 10 and 2000 characters'),
+
+  body('pages')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Pages must be between 1 and 1000'),
+
+  body('deadline')
+    .optional()
+    .custom(validateFutureDeadline),
+
+  body('deadlineTimezone')
+    .optional()
+    .custom((value) => isValidTimezone(value))
+    .withMessage('Deadline timezone must be a valid IANA timezone, e.g. Europe/London'),
+];
+
 // Submit order
 export const submitOrder = async (req: Request, res: Response) => {
   try {
@@ -81,6 +186,49 @@ export const submitOrder = async (req: Request, res: Response) => {
     const orderData: OrderFormData = req.body;
     const attachments = (req.files as MulterFile[]) || [];
 
+    // Price the order straight away so the customer sees an estimate
+    const deadlineTimezone = orderData.deadlineTimezone || DEFAULT_TIMEZONE;
+    const deadlineAt = parseDeadline(orderData.deadline, { timezone: deadlineTimezone }) || undefined;
+    const pages = parseInt(orderData.pages, 10);
+    let quote = calculateQuote({
+      pages,
+      deadlineAt,
+      academicLevel: orderData.academicLevel,
+      subjectCode: orderData.subjectCode,
+    });
+
+    // Apply the discount code, counting the redemption only once it is known to be usable
+    let discountApplied: OrderFormData['discount'];
+    let redeemedDiscount: IDiscountCode | undefined; // Released again if the order is not saved
+    if (orderData.discountCode) {
+      const { discount, error } = await checkDiscountCode(orderData.discountCode, {
+        subjectCode: orderData.subjectCode,
+        pages,
+        email: orderData.email,
+      });
+      if (!discount || !(await redeemDiscountCode(discount))) {
+        return res.status(400).json({
+          success: false,
+          message: error || 'This discount code has reached its usage limit',
+        });
+      }
+      redeemedDiscount = discount;
+      quote = applyDiscountToQuote(quote, discount);
+      discountApplied = { code: discount.code, amount: quote.discount!.amount };
+    }
+
+    // Files were only buffered so far, store them now that the submission has passed every check
+    try {
+      await cloudinaryUtils.storeBufferedFiles(attachments as Express.Multer.File[]);
+    } catch (error) {
+      console.error('Error uploading order attachments:', error);
+      if (redeemedDiscount) await releaseDiscountRedemption(redeemedDiscount);
+      return res.status(502).json({
+        success: false,
+        message: 'Could not upload attachments. Please try again later.',
+      });
+    }
+
     // Add file URLs to order data
     const fileUrls = attachments.map(file => ({
       url: file.path,
@@ -89,17 +237,63 @@ export const submitOrder = async (req: Request, res: Response) => {
       type: file.mimetype
     }));
 
-    const enrichedOrderData = {
+    const enrichedOrderData: OrderFormData = {
       ...orderData,
       attachments: fileUrls,
       orderId: generateOrderId(), // Generate order ID for tracking
+      quote: { total: quote.total, currency: quote.currency },
+      discount: discountApplied,
     };
 
+    // Persist the order before notifying anyone
+    const order = new Order({
+      orderId: enrichedOrderData.orderId,
+      user: (req as any).user?._id, // Set by attachUserIfAuthenticated when the customer is logged in
+      customer: {
+        email: orderData.email,
+        countryCode: orderData.countryCode,
+        phoneNumber: orderData.phoneNumber,
+      },
+      subjectCode: orderData.subjectCode,
+      description: orderData.description,
+      pages,
+      academicLevel: orderData.academicLevel,
+      deadline: orderData.deadline,
+      deadlineAt,
+      deadlineTimezone,
+      acceptTerms: orderData.acceptTerms,
+      attachments: fileUrls,
+      quote,
+      submissionFingerprint: (req as any).submissionFingerprint,
+      status: EOrderStatus.RECEIVED,
+      statusHistory: [{ status: EOrderStatus.RECEIVED, changedAt: new Date() }],
+    });
+
+    try {
+      await order.save();
+    } catch (error) {
+      if (redeemedDiscount) await releaseDiscountRedemption(redeemedDiscount);
+      throw error;
+    }
+
+    // Private tracking link for the customer
+    const trackingUrl = getTrackingUrl(order);
+
+    // Send confirmation email to customer, it includes the tracking link
+    // Without it the customer still gets the tracking link on its own
+    let confirmationQueued: boolean | undefined;
+    let trackingEmailQueued: boolean;
+    if (emailConfig.customerConfirmationEnabled) {
+      confirmationQueued = await sendCustomerConfirmationEmail(enrichedOrderData, trackingUrl);
+      trackingEmailQueued = confirmationQueued;
+      order.confirmationEmail = { queued: confirmationQueued, queuedAt: new Date() };
+      await order.save();
+    } else {
+      trackingEmailQueued = await sendTrackingLinkEmail(enrichedOrderData, trackingUrl);
+    }
+
     // Send notification email to admin with file URLs
-    const emailSent = await sendOrderNotificationEmail(enrichedOrderData);
-    
-    // Send confirmation email to customer
-    // const confirmationSent = await sendCustomerConfirmationEmail(enrichedOrderData);
+    const emailQueued = await sendOrderNotificationEmail(enrichedOrderData);
 
     // Generate WhatsApp URL
     const whatsappURL = generateWhatsAppURL(enrichedOrderData);
@@ -109,10 +303,17 @@ export const submitOrder = async (req: Request, res: Response) => {
       message: 'Order submitted successfully',
       data: {
         whatsappURL,
-        emailSent,
-        // confirmationSent,
+        emailQueued,
+        confirmationQueued,
         orderId: enrichedOrderData.orderId, // Use the same order ID
+        trackingUrl,
+        trackingEmailQueued,
         attachments: fileUrls,
+        quote: {
+          total: quote.total,
+          currency: quote.currency,
+          discount: quote.discount,
+        },
       },
     });
 
@@ -126,36 +327,484 @@ export const submitOrder = async (req: Request, res: Response) => {
   }
 };
 
-// // Get order status (placeholder for future implementation)
-// export const getOrderStatus = async (req: Request, res: Response) => {
-//   try {
-//     const { orderId } = req.params;
-
-//     // In a real application, you would fetch order details from database
-//     res.status(200).json({
-//       success: true,
-//       message: 'Order status retrieved successfully',
-//       data: {
-//         orderId,
-//         status: 'processing',
-//         estimatedCompletion: 'TBD',
-//       },
-//     });
-
-//   } catch (error) {
-//     console.error('Error fetching order status:', error);
-//     res.status(500).json({
-//       success: false,
-//       message: 'Internal server error. Please try again later.',
-//     });
-//   }
-// };
-
-// Helper function to generate simple order ID
+// Get a price quote without submitting an order
+export const getQuote = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      });
+    }
+
+    const { pages, deadline, deadlineTimezone, subjectCode, academicLevel } = req.body;
+
+    // Already checked by validateFutureDeadline
+    const deadlineAt = parseDeadline(String(deadline), { timezone: deadlineTimezone }) as Date;
+
+    const quote = calculateQuote({
+      pages: parseInt(pages, 10),
+      deadlineAt,
+      academicLevel,
+      subjectCode,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Quote calculated successfully',
+      data: {
+        quote,
+        deadlineAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error calculating quote:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Get the logged in customer's order history
+export const getMyOrders = async (req: any, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+
+    // Pick up guest orders placed with the account's email before the customer registered
+    await linkGuestOrdersToUser(req.user);
+
+    const query: any = { user: req.user._id };
+    if (status && Object.values(EOrderStatus).includes(status as EOrderStatus)) {
+      query.status = status;
+    }
+
+    const orders = await Order.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await Order.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orders: orders.map(order => ({
+          ...toTrackedOrder(order),
+          trackingUrl: getTrackingUrl(order),
+        })),
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching customer orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching orders',
+    });
+  }
+};
+
+// Get order status
+export const getOrderStatus = async (req: Request, res: Response) => {
+  try {
+    const { orderId } = req.params;
+
+    const order = await Order.findOne({ orderId: orderId.toUpperCase() })
+      .select('orderId status statusHistory deadline deadlineAt createdAt updatedAt')
+      .lean();
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Order status retrieved successfully',
+      data: {
+        orderId: order.orderId,
+        status: order.status,
+        // Only expose when the status changed, not who changed it or internal notes
+        statusHistory: order.statusHistory.map(change => ({
+          status: change.status,
+          changedAt: change.changedAt,
+        })),
+        deadline: order.deadline,
+        estimatedCompletion: order.deadlineAt || 'TBD',
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error fetching order status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Get all orders for admin (with pagination, filters and search)
+export const getAllOrdersForAdmin = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    // Build query from status, subjectCode, email, deadline window and search filters
+    const query = buildAdminOrderFilter(req.query as AdminOrderQuery);
+
+    // Execute query with pagination
+    const orders = await Order.find(query)
+      .select('-internalNotes')
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    // Get total count for pagination
+    const total = await Order.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orders,
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching orders for admin:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching orders',
+    });
+  }
+};
+
+// Get single order by ID (Admin only)
+export const getOrderByIdForAdmin = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    // A malformed id can not match an order, answer 404 instead of failing the cast
+    const order = isValidObjectId(id)
+      ? await Order.findById(id)
+        .populate('statusHistory.changedBy', 'name email')
+        .populate('internalNotes.author', 'name email')
+        .populate('assignment.writer', 'name email')
+      : null;
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        order,
+        allowedTransitions: ORDER_STATUS_TRANSITIONS[order.status],
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching order',
+    });
+  }
+};
+
+// Update order details (Admin only) - status is changed through changeOrderStatus
+export const updateOrder = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array(),
+      });
+    }
+
+    const { id } = req.params;
+    const { email, countryCode, phoneNumber, subjectCode, description, pages, deadline, deadlineTimezone } = req.body;
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    // Update fields
+    order.customer.email = email || order.customer.email;
+    order.customer.countryCode = countryCode || order.customer.countryCode;
+    order.customer.phoneNumber = phoneNumber || order.customer.phoneNumber;
+    order.subjectCode = subjectCode || order.subjectCode;
+    order.description = description || order.description;
+    if (pages !== undefined) {
+      order.pages = parseInt(pages, 10);
+    }
+
+    // Re-parse the deadline whenever it or its timezone changes, and re-arm the deadline alerts
+    if ((deadline && deadline !== order.deadline) || (deadlineTimezone && deadlineTimezone !== order.deadlineTimezone)) {
+      order.deadline = deadline || order.deadline;
+      order.deadlineTimezone = deadlineTimezone || order.deadlineTimezone;
+      order.deadlineAt = parseDeadline(order.deadline, { timezone: order.deadlineTimezone }) || undefined;
+      order.deadlineAlertsSent = [];
+      order.overdue = false;
+      order.overdueAt = undefined;
+    }
+
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Order updated successfully',
+      data: order,
+    });
+  } catch (error) {
+    console.error('Error updating order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating order',
+    });
+  }
+};
+
+// Set or recalculate the quote for an order (Admin only)
+// Sending a total overrides the calculated price, leaving it out recalculates from the order details
+export const updateOrderQuote = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { total, reason } = req.body;
+
+    if (total !== undefined && (isNaN(parseFloat(total)) || parseFloat(total) <= 0)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Total must be a positive number',
+      });
+    }
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    // The price is fixed once the customer has paid
+    if (order.status !== EOrderStatus.RECEIVED && order.status !== EOrderStatus.QUOTED) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot change the quote of an order with status ${order.status}`,
+      });
+    }
+
+    // Urgency is measured from when the order was placed, a slow re-quote must not raise the price
+    const user = (req as any).user;
+    let quote = calculateQuote({
+      pages: order.pages,
+      deadlineAt: order.deadlineAt,
+      academicLevel: order.academicLevel,
+      subjectCode: order.subjectCode,
+    }, pricingConfig, order.createdAt);
+
+    // Keep the discount the customer ordered with, it was already redeemed
+    if (order.quote?.discount) {
+      quote = applyDiscountToQuote(quote, order.quote.discount);
+    }
+
+    order.quote = total !== undefined
+      ? {
+        ...quote,
+        total: roundCurrency(parseFloat(total)),
+        overridden: true,
+        overriddenBy: user._id,
+        overrideReason: reason,
+      }
+      : quote;
+
+    // Sending a quote moves a new order to Quoted
+    if (order.status === EOrderStatus.RECEIVED) {
+      transitionOrderStatus(order, EOrderStatus.QUOTED, user._id, reason);
+    }
+
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Order quote updated successfully',
+      data: {
+        _id: order._id,
+        orderId: order.orderId,
+        status: order.status,
+        quote: order.quote,
+      },
+    });
+  } catch (error) {
+    console.error('Error updating order quote:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating order quote',
+    });
+  }
+};
+
+// Resend the tracking link to the customer (Admin only)
+// Passing revoke: true invalidates every link sent before
+export const resendTrackingLink = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { revoke } = req.body || {};
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (revoke === true) {
+      order.trackingTokenVersion += 1;
+      await order.save();
+    }
+
+    const emailQueued = await sendTrackingLinkEmail(toOrderFormData(order), getTrackingUrl(order));
+
+    res.status(200).json({
+      success: true,
+      message: revoke === true ? 'Previous links revoked and new tracking link sent' : 'Tracking link sent',
+      data: { emailQueued },
+    });
+  } catch (error) {
+    console.error('Error resending tracking link:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error resending tracking link',
+    });
+  }
+};
+
+// Add an internal note to an order (Admin only)
+export const addOrderNote = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { note } = req.body;
+
+    if (!note || typeof note !== 'string' || !note.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Note is required',
+      });
+    }
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    order.internalNotes.push({
+      note: note.trim(),
+      author: (req as any).user._id,
+      createdAt: new Date(),
+    });
+    await order.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added successfully',
+      data: order.internalNotes,
+    });
+  } catch (error) {
+    console.error('Error adding order note:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error adding order note',
+    });
+  }
+};
+
+// Change order status (Admin only) - only transitions allowed by the order lifecycle
+export const changeOrderStatus = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, note } = req.body;
+
+    if (!status || !Object.values(EOrderStatus).includes(status as EOrderStatus)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid status provided',
+        validStatuses: Object.values(EOrderStatus),
+      });
+    }
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const oldStatus = order.status;
+    if (!transitionOrderStatus(order, status as EOrderStatus, (req as any).user._id, note)) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot change order status from ${oldStatus} to ${status}`,
+        allowedTransitions: ORDER_STATUS_TRANSITIONS[oldStatus],
+      });
+    }
+
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: `Order status changed from ${oldStatus} to ${order.status} successfully`,
+      data: {
+        _id: order._id,
+        orderId: order.orderId,
+        status: order.status,
+        statusHistory: order.statusHistory,
+      },
+    });
+  } catch (error) {
+    console.error('Error changing order status:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error changing order status',
+    });
+  }
+};
+
+// Helper function to generate a hard to guess order ID, e.g. ODR-7KQ2-M9XH-3PZD
+const ORDER_ID_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'; // No 0/O or 1/I to keep it readable
 const generateOrderId = (): string => {
-  const timestamp = Date.now().toString(36);
-  const randomPart = Math.random().toString(36).substring(2, 7);
-  return `ODR-${timestamp}-${randomPart}`.toUpperCase();
+  const bytes = crypto.randomBytes(12);
+  const characters = Array.from(bytes, byte => ORDER_ID_ALPHABET[byte % ORDER_ID_ALPHABET.length]).join('');
+  return `ODR-${characters.slice(0, 4)}-${characters.slice(4, 8)}-${characters.slice(8, 12)}`;
 };
 
 // Test endpoint to check if email service is working
@@ -180,13 +829,13 @@ export const testEmailService = async (req: Request, res: Response) => {
       ]
     };
 
-    const emailSent = await sendOrderNotificationEmail(testData);
+    const emailQueued = await sendOrderNotificationEmail(testData);
     
     res.status(200).json({
       success: true,
       message: 'Email service test completed',
       data: {
-        emailSent,
+        emailQueued,
         testData,
       },
     });
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import Order from '@/models/order.model';
+import { buildAdminOrderFilter, AdminOrderQuery } from '@/utils/order.utils';
+import { writeOrdersCsv, writeOrdersXlsx } from '@/utils/orderExport.utils';
+
+const EXPORT_FORMATS = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Turn month=YYYY-MM into a created date range in UTC
+const getMonthRange = (month: string): { createdFrom: string; createdTo: string } | null => {
+  const match = month.match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  if (monthIndex < 0 || monthIndex > 11) return null;
+
+  return {
+    createdFrom: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+    createdTo: new Date(Date.UTC(year, monthIndex + 1, 1) - 1).toISOString(),
+  };
+};
+
+// Export orders as CSV or XLSX (Admin only)
+// Accepts the same filters as the admin order list, plus month=YYYY-MM as a shortcut for the created date range
+// Rows are streamed from a cursor straight into the response so large exports are never held in memory
+export const exportOrders = async (req: Request, res: Response) => {
+  const format = ((req.query.format as string) || 'csv').toLowerCase() as keyof typeof EXPORT_FORMATS;
+  if (!EXPORT_FORMATS[format]) {
+    return res.status(400).json({
+      success: false,
+      message: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`,
+    });
+  }
+
+  const params: AdminOrderQuery = { ...(req.query as AdminOrderQuery) };
+  const month = req.query.month as string;
+  if (month) {
+    const range = getMonthRange(month);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        message: 'Month must be in the format YYYY-MM',
+      });
+    }
+    Object.assign(params, range);
+  }
+
+  const cursor = Order.find(buildAdminOrderFilter(params))
+    .select('-internalNotes -statusHistory -attachments -deliverables -description')
+    .populate('assignment.writer', 'name email')
+    .sort({ createdAt: 1 })
+    .lean()
+    .batchSize(500)
+    .cursor();
+
+  // Stop reading from the database when the client goes away
+  res.on('close', () => {
+    cursor.close().catch(() => undefined);
+  });
+
+  const filename = `orders-${month || new Date().toISOString().slice(0, 10)}.${format}`;
+  res.status(200);
+  res.setHeader('Content-Type', EXPORT_FORMATS[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (format === 'xlsx') {
+      await writeOrdersXlsx(cursor, res);
+    } else {
+      await writeOrdersCsv(cursor, res);
+    }
+  } catch (error) {
+    console.error('Error exporting orders:', error);
+    // Headers are already sent, so the only way to signal the failure is to cut the download short
+    res.destroy();
+  }
+};
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import Order, { IOrder } from '@/models/order.model';
+import OrderMessage, { EMessageSender } from '@/models/orderMessage.model';
+import { MulterFile } from '@/types/multer';
+import {
+  sendCustomerMessageNotificationEmail,
+  sendStaffMessageNotificationEmail,
+} from '@/utils/email.utils';
+import { toOrderFormData } from '@/utils/order.utils';
+import { getTrackingUrl } from '@/utils/tracking.utils';
+
+const MAX_MESSAGE_LENGTH = 5000;
+
+// Validate the message body, returns an error message or null
+const validateMessageBody = (body: any): string | null => {
+  if (!body || typeof body !== 'string' || !body.trim()) {
+    return 'Message is required';
+  }
+  if (body.length > MAX_MESSAGE_LENGTH) {
+    return `Message must be at most ${MAX_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+};
+
+const getUploadedAttachments = (req: Request) =>
+  ((req.files as MulterFile[]) || []).map(file => ({
+    url: file.path,
+    name: file.originalname,
+    size: file.size,
+    type: file.mimetype,
+  }));
+
+// Mark the other party's messages as read
+const markMessagesRead = async (order: IOrder, sender: EMessageSender) => {
+  await OrderMessage.updateMany(
+    { order: order._id, sender, readAt: { $exists: false } },
+    { readAt: new Date() }
+  );
+};
+
+// Get the message thread from the tracking page
+export const getCustomerMessages = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+
+    const messages = await OrderMessage.find({ order: order._id })
+      .select('-author')
+      .sort({ createdAt: 1 });
+
+    await markMessagesRead(order, EMessageSender.STAFF);
+
+    res.status(200).json({
+      success: true,
+      data: { messages },
+    });
+  } catch (error) {
+    console.error('Error fetching customer messages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Post a message from the tracking page and notify the admin team
+export const postCustomerMessage = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+    const { body } = req.body;
+
+    const validationError = validateMessageBody(body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const message = await OrderMessage.create({
+      order: order._id,
+      sender: EMessageSender.CUSTOMER,
+      body: body.trim(),
+      attachments: getUploadedAttachments(req),
+    });
+
+    const emailQueued = await sendCustomerMessageNotificationEmail(toOrderFormData(order), message);
+
+    res.status(201).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: {
+        message,
+        emailQueued,
+      },
+    });
+  } catch (error) {
+    console.error('Error posting customer message:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Get the message thread for an order (Admin only)
+export const getOrderMessagesForAdmin = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const messages = await OrderMessage.find({ order: order._id })
+      .populate('author', 'name email')
+      .sort({ createdAt: 1 });
+
+    await markMessagesRead(order, EMessageSender.CUSTOMER);
+
+    res.status(200).json({
+      success: true,
+      data: { messages },
+    });
+  } catch (error) {
+    console.error('Error fetching order messages:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching order messages',
+    });
+  }
+};
+
+// Post a staff message on an order and notify the customer (Admin only)
+export const postStaffMessage = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { body } = req.body;
+
+    const validationError = validateMessageBody(body);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const message = await OrderMessage.create({
+      order: order._id,
+      sender: EMessageSender.STAFF,
+      author: (req as any).user._id,
+      body: body.trim(),
+      attachments: getUploadedAttachments(req),
+    });
+
+    const emailQueued = await sendStaffMessageNotificationEmail(
+      toOrderFormData(order),
+      message,
+      getTrackingUrl(order)
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Message sent successfully',
+      data: {
+        message,
+        emailQueued,
+      },
+    });
+  } catch (error) {
+    console.error('Error posting staff message:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error posting message',
+    });
+  }
+};
@@ -0,0 +1,448 @@
+import { Request, Response } from 'express';
+import Order, { EOrderStatus, IOrder } from '@/models/order.model';
+import { Payment, PaymentWebhookEvent, EPaymentStatus, IPayment } from '@/models/payment.model';
+import {
+  getPaymentProvider,
+  createFakeProvider,
+  PaymentWebhookEvent as ProviderWebhookEvent,
+  RefundResult,
+} from '@/utils/payment.utils';
+import { transitionOrderStatus } from '@/utils/order.utils';
+import { roundCurrency } from '@/utils/pricing.utils';
+
+// A pending payment that never got a checkout session after this long is treated as failed
+const CHECKOUT_START_TIMEOUT_MS = 5 * 60 * 1000;
+
+// The amount credited is the one the checkout was created with, the event only has to confirm it
+const matchesCheckout = (payment: IPayment, event: ProviderWebhookEvent) =>
+  event.amount !== undefined &&
+  roundCurrency(event.amount) === roundCurrency(payment.amount) &&
+  event.currency?.toUpperCase() === payment.currency.toUpperCase();
+
+// Apply a verified provider event to the payment and its order
+// Guarded by conditional updates so a payment is only ever counted once
+const applyPaymentEvent = async (providerName: string, event: ProviderWebhookEvent) => {
+  if (!event.sessionId) return;
+
+  if (event.type === 'payment.succeeded') {
+    const pending = await Payment.findOne({
+      provider: providerName,
+      providerSessionId: event.sessionId,
+      status: EPaymentStatus.PENDING,
+    });
+    if (pending && !matchesCheckout(pending, event)) {
+      console.error(
+        `Payment ${pending._id} left pending: provider reported ${event.amount} ${event.currency}, ` +
+        `checkout was for ${pending.amount} ${pending.currency}`
+      );
+      return;
+    }
+
+    // A payment already marked Succeeded is picked up again when a retry follows a failed order update
+    const payment = await Payment.findOneAndUpdate(
+      { provider: providerName, providerSessionId: event.sessionId, status: EPaymentStatus.PENDING },
+      {
+        status: EPaymentStatus.SUCCEEDED,
+        providerPaymentId: event.providerPaymentId,
+        paidAt: new Date(),
+      },
+      { new: true }
+    ) || await Payment.findOne({
+      provider: providerName,
+      providerSessionId: event.sessionId,
+      status: EPaymentStatus.SUCCEEDED,
+    });
+    if (!payment) return;
+
+    // paidPayments makes the credit idempotent per payment
+    const order = await Order.findOneAndUpdate(
+      { _id: payment.order, paidPayments: { $ne: payment._id } },
+      { $inc: { amountPaid: payment.amount }, $push: { paidPayments: payment._id } },
+      { new: true }
+    ) || await Order.findById(payment.order);
+    if (!order) return;
+
+    // The order is Paid once the successful payments cover the quote
+    if (order.quote && roundCurrency(order.amountPaid) >= order.quote.total) {
+      if (transitionOrderStatus(order, EOrderStatus.PAID, undefined, `Payment received via ${providerName}`)) {
+        await order.save();
+      }
+    }
+    return;
+  }
+
+  if (event.type === 'payment.failed' || event.type === 'checkout.expired') {
+    await Payment.updateOne(
+      { provider: providerName, providerSessionId: event.sessionId, status: EPaymentStatus.PENDING },
+      { status: event.type === 'payment.failed' ? EPaymentStatus.FAILED : EPaymentStatus.EXPIRED }
+    );
+  }
+};
+
+// Record the event id first so retried webhooks are acknowledged without being applied twice
+const processWebhookEvent = async (providerName: string, event: ProviderWebhookEvent): Promise<boolean> => {
+  try {
+    await PaymentWebhookEvent.create({ provider: providerName, eventId: event.eventId, type: event.type });
+  } catch (error: any) {
+    if (error.code === 11000) return false; // Already processed
+    throw error;
+  }
+
+  try {
+    await applyPaymentEvent(providerName, event);
+  } catch (error) {
+    // Let the provider retry the event
+    await PaymentWebhookEvent.deleteOne({ provider: providerName, eventId: event.eventId });
+    throw error;
+  }
+
+  return true;
+};
+
+// Answer a checkout request with the order's already open payment instead of starting another one
+const respondWithOpenPayment = (res: Response, payment: IPayment | null, balance: number) => {
+  if (!payment?.checkoutUrl) {
+    return res.status(409).json({
+      success: false,
+      message: 'A payment for this order is already being started. Please try again in a moment.',
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: 'A checkout session is already open for this order',
+    data: {
+      paymentId: payment._id,
+      checkoutUrl: payment.checkoutUrl,
+      amount: payment.amount,
+      currency: payment.currency,
+      balance,
+    },
+  });
+};
+
+// Create a checkout session for a quoted order (order resolved by validateTrackingToken)
+export const createCheckoutSession = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+    const { amount } = req.body || {};
+
+    if (order.status !== EOrderStatus.QUOTED || !order.quote) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only quoted orders can be paid',
+      });
+    }
+
+    // Customers may pay in parts, each payment covers at most the outstanding balance
+    const balance = roundCurrency(order.quote.total - order.amountPaid);
+    const paymentAmount = amount !== undefined ? roundCurrency(parseFloat(amount)) : balance;
+    if (isNaN(paymentAmount) || paymentAmount <= 0 || paymentAmount > balance) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment amount must be greater than 0 and at most ${balance.toFixed(2)}`,
+      });
+    }
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return res.status(500).json({
+        success: false,
+        message: 'Payment provider is not configured',
+      });
+    }
+
+    // Only one checkout can be open at a time, the customer is sent back to it until it completes or expires
+    const openPayment = await Payment.findOne({ order: order._id, status: EPaymentStatus.PENDING });
+    if (openPayment) {
+      const abandoned = !openPayment.providerSessionId &&
+        Date.now() - openPayment.createdAt.getTime() > CHECKOUT_START_TIMEOUT_MS;
+      if (!abandoned) {
+        return respondWithOpenPayment(res, openPayment, balance);
+      }
+      await Payment.updateOne(
+        { _id: openPayment._id, status: EPaymentStatus.PENDING, providerSessionId: { $exists: false } },
+        { status: EPaymentStatus.FAILED }
+      );
+    }
+
+    let payment: IPayment;
+    try {
+      payment = await Payment.create({
+        order: order._id,
+        provider: provider.name,
+        amount: paymentAmount,
+        currency: order.quote.currency,
+        status: EPaymentStatus.PENDING,
+      });
+    } catch (error: any) {
+      // Another request opened a checkout at the same time
+      if (error.code !== 11000) throw error;
+      const concurrentPayment = await Payment.findOne({ order: order._id, status: EPaymentStatus.PENDING });
+      return respondWithOpenPayment(res, concurrentPayment, balance);
+    }
+
+    const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+    try {
+      const session = await provider.createCheckoutSession({
+        reference: payment._id.toString(),
+        orderId: order.orderId,
+        amount: paymentAmount,
+        currency: order.quote.currency,
+        description: `Assignment order ${order.orderId}`,
+        customerEmail: order.customer.email,
+        successUrl: process.env.PAYMENT_SUCCESS_URL || `${clientUrl}/order/payment?status=success&orderId=${order.orderId}`,
+        cancelUrl: process.env.PAYMENT_CANCEL_URL || `${clientUrl}/order/payment?status=cancelled&orderId=${order.orderId}`,
+      });
+
+      payment.providerSessionId = session.sessionId;
+      payment.checkoutUrl = session.url;
+      await payment.save();
+    } catch (error) {
+      console.error('Error creating checkout session:', error);
+      payment.status = EPaymentStatus.FAILED;
+      await payment.save();
+      return res.status(502).json({
+        success: false,
+        message: 'Could not start the payment. Please try again later.',
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Checkout session created successfully',
+      data: {
+        paymentId: payment._id,
+        checkoutUrl: payment.checkoutUrl,
+        amount: payment.amount,
+        currency: payment.currency,
+        balance,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating checkout session:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Receive a signed webhook from a payment provider
+export const handlePaymentWebhook = async (req: Request, res: Response) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Unknown payment provider' });
+    }
+
+    const rawBody: Buffer = (req as any).rawBody || Buffer.from('');
+    const event = provider.parseWebhookEvent(rawBody, req.headers);
+    if (!event || !event.eventId) {
+      return res.status(400).json({ error: 'Invalid webhook signature' });
+    }
+
+    const processed = await processWebhookEvent(provider.name, event);
+
+    res.status(200).json({ received: true, duplicate: !processed });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+};
+
+// Complete a fake checkout session (development only)
+export const completeFakePayment = async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.params;
+    const { type = 'payment.succeeded' } = req.body || {};
+
+    const payment = await Payment.findOne({ provider: 'fake', providerSessionId: sessionId });
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found',
+      });
+    }
+
+    // Go through the same signed webhook path a real provider would use
+    const provider = createFakeProvider();
+    const rawBody = JSON.stringify({
+      id: `fake_evt_${Date.now()}`,
+      type,
+      sessionId,
+      paymentId: `fake_pi_${payment._id}`,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+    const event = provider.parseWebhookEvent(Buffer.from(rawBody), {
+      'x-fake-signature': provider.signWebhook(rawBody),
+    });
+    if (event) {
+      await processWebhookEvent(provider.name, event);
+    }
+
+    const updatedPayment = await Payment.findById(payment._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Fake payment processed',
+      data: updatedPayment,
+    });
+  } catch (error) {
+    console.error('Error completing fake payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error completing fake payment',
+    });
+  }
+};
+
+// Get all payments for an order (Admin only)
+export const getOrderPayments = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findById(id).select('orderId quote amountPaid amountRefunded status');
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    const payments = await Payment.find({ order: order._id })
+      .populate('refunds.createdBy', 'name email')
+      .sort({ createdAt: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        order,
+        payments,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching order payments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching order payments',
+    });
+  }
+};
+
+// Refund a payment in full or in part (Admin only)
+export const refundPayment = async (req: Request, res: Response) => {
+  try {
+    const { paymentId } = req.params;
+    const { amount, reason } = req.body;
+
+    const payment = await Payment.findById(paymentId);
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found',
+      });
+    }
+
+    if (
+      (payment.status !== EPaymentStatus.SUCCEEDED && payment.status !== EPaymentStatus.PARTIALLY_REFUNDED) ||
+      !payment.providerPaymentId
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot refund a payment with status ${payment.status}`,
+      });
+    }
+
+    const refundable = roundCurrency(payment.amount - payment.amountRefunded);
+    const refundAmount = amount !== undefined ? roundCurrency(parseFloat(amount)) : refundable;
+    if (isNaN(refundAmount) || refundAmount <= 0 || refundAmount > refundable) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund amount must be greater than 0 and at most ${refundable.toFixed(2)}`,
+      });
+    }
+
+    const provider = getPaymentProvider(payment.provider);
+    if (!provider) {
+      return res.status(500).json({
+        success: false,
+        message: `Payment provider ${payment.provider} is not configured`,
+      });
+    }
+
+    // Reserve the amount before calling the provider so concurrent requests can not refund it twice
+    const refundableStatuses = [EPaymentStatus.SUCCEEDED, EPaymentStatus.PARTIALLY_REFUNDED];
+    const claimed = await Payment.findOneAndUpdate(
+      {
+        _id: payment._id,
+        status: { $in: refundableStatuses },
+        amountRefunded: payment.amountRefunded,
+      },
+      { $inc: { amountRefunded: refundAmount } },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(409).json({
+        success: false,
+        message: 'The payment was changed by another request. Reload it and try again',
+      });
+    }
+
+    let refund: RefundResult;
+    try {
+      refund = await provider.refund({
+        providerPaymentId: payment.providerPaymentId,
+        amount: refundAmount,
+        currency: payment.currency,
+        reason,
+      });
+    } catch (error) {
+      console.error('Error refunding payment with provider:', error);
+      await Payment.updateOne({ _id: payment._id }, { $inc: { amountRefunded: -refundAmount } });
+      return res.status(502).json({
+        success: false,
+        message: 'The payment provider could not refund the payment. Please try again later.',
+      });
+    }
+
+    await Payment.updateOne(
+      { _id: payment._id },
+      {
+        $push: {
+          refunds: {
+            providerRefundId: refund.refundId,
+            amount: refundAmount,
+            reason,
+            createdBy: (req as any).user._id,
+            createdAt: new Date(),
+          },
+        },
+      }
+    );
+
+    // A partial refund finishing late must not undo the Refunded status set by a later full refund
+    const fullyRefunded = roundCurrency(claimed.amountRefunded) >= payment.amount;
+    await Payment.updateOne(
+      fullyRefunded ? { _id: payment._id } : { _id: payment._id, status: EPaymentStatus.SUCCEEDED },
+      { status: fullyRefunded ? EPaymentStatus.REFUNDED : EPaymentStatus.PARTIALLY_REFUNDED }
+    );
+
+    await Order.updateOne({ _id: payment.order }, { $inc: { amountRefunded: refundAmount } });
+
+    const updatedPayment = await Payment.findById(payment._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment refunded successfully',
+      data: updatedPayment,
+    });
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error refunding payment',
+    });
+  }
+};
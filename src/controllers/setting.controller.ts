@@ -0,0 +1,69 @@
+import { Response } from "express";
+import Setting from "@/models/setting.model";
+import { defaultSettings, getAllSettings, isSettingKey } from "@/utils/setting.utils";
+
+// Get all settings with their current values
+export const getSettings = async (req: any, res: Response) => {
+  try {
+    const settings = await getAllSettings();
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching settings",
+    });
+  }
+};
+
+// Change a single setting, the value must have the same type as its default
+export const updateSetting = async (req: any, res: Response) => {
+  try {
+    const key = req.params.key as string;
+    const { value } = req.body;
+
+    if (!isSettingKey(key)) {
+      return res.status(404).json({
+        success: false,
+        message: "Unknown setting",
+      });
+    }
+
+    if (typeof value !== typeof defaultSettings[key]) {
+      return res.status(400).json({
+        success: false,
+        message: `Value for ${key} must be a ${typeof defaultSettings[key]}`,
+      });
+    }
+
+    // Switching the policy on without 2FA would lock the super admin out of this page
+    if (key === "requireAdminTwoFactor" && value === true && !req.user.twoFactor?.enabled) {
+      return res.status(400).json({
+        success: false,
+        message: "Enable two-factor authentication on your own account first",
+      });
+    }
+
+    const setting = await Setting.findOneAndUpdate(
+      { key },
+      { value, updatedBy: req.user._id },
+      { new: true, upsert: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "Setting updated successfully",
+      data: { key: setting.key, value: setting.value },
+    });
+  } catch (error) {
+    console.error("Error updating setting:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error updating setting",
+    });
+  }
+};
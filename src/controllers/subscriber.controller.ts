@@ -0,0 +1,270 @@
+import { Request, Response } from "express";
+import { validationResult } from "express-validator";
+import Subscriber, { ESubscriberStatus } from "@/models/subscriber.model";
+import { sendNewsletterConfirmationEmail } from "@/utils/email.utils";
+import { getConfirmUrl, sendBlogDigest, verifySubscriberToken } from "@/utils/subscriber.utils";
+
+// Same answer whether or not the address is already on the list
+const SUBSCRIBE_MESSAGE = "Please check your inbox to confirm your subscription";
+const CONFIRMATION_RESEND_MINUTES = 5;
+
+// Sign up to the newsletter, the subscription starts once the emailed link is opened
+export const subscribe = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { email, name, categories, subjects, source } = req.body;
+
+    let subscriber = await Subscriber.findOne({ email: email.toLowerCase() });
+    if (subscriber?.status === ESubscriberStatus.SUBSCRIBED) {
+      return res.status(200).json({ success: true, message: SUBSCRIBE_MESSAGE });
+    }
+
+    // Do not let repeated signups flood someone's inbox with confirmations
+    const resendAfter = new Date(Date.now() - CONFIRMATION_RESEND_MINUTES * 60 * 1000);
+    if (
+      subscriber?.status === ESubscriberStatus.PENDING &&
+      subscriber.confirmationSentAt &&
+      subscriber.confirmationSentAt > resendAfter
+    ) {
+      return res.status(200).json({ success: true, message: SUBSCRIBE_MESSAGE });
+    }
+
+    if (!subscriber) {
+      subscriber = new Subscriber({ email });
+    }
+    subscriber.name = name || subscriber.name;
+    subscriber.categories = categories || [];
+    subscriber.subjects = subjects || [];
+    subscriber.source = source || subscriber.source;
+    subscriber.status = ESubscriberStatus.PENDING;
+    subscriber.confirmationSentAt = new Date();
+
+    try {
+      await subscriber.save();
+    } catch (error: any) {
+      // Signed up twice at the same moment, the first request sends the confirmation
+      if (error.code === 11000) {
+        return res.status(200).json({ success: true, message: SUBSCRIBE_MESSAGE });
+      }
+      throw error;
+    }
+
+    await sendNewsletterConfirmationEmail(subscriber, getConfirmUrl(subscriber));
+
+    res.status(200).json({ success: true, message: SUBSCRIBE_MESSAGE });
+  } catch (error) {
+    console.error("Error subscribing to newsletter:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error subscribing to newsletter",
+    });
+  }
+};
+
+// Confirm a subscription from the emailed link
+export const confirmSubscription = async (req: Request, res: Response) => {
+  try {
+    let subscriberId: string;
+    try {
+      subscriberId = verifySubscriberToken(req.params.token as string, "newsletter-confirm").sid;
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.name === "TokenExpiredError"
+          ? "Confirmation link expired, please sign up again"
+          : "Invalid confirmation link",
+      });
+    }
+
+    const subscriber = await Subscriber.findById(subscriberId);
+    if (!subscriber) {
+      return res.status(404).json({
+        success: false,
+        message: "Subscription not found",
+      });
+    }
+
+    // An old confirmation link must not undo an unsubscribe
+    if (subscriber.status === ESubscriberStatus.UNSUBSCRIBED) {
+      return res.status(400).json({
+        success: false,
+        message: "This subscription was cancelled, please sign up again",
+      });
+    }
+
+    if (subscriber.status === ESubscriberStatus.PENDING) {
+      subscriber.status = ESubscriberStatus.SUBSCRIBED;
+      subscriber.confirmedAt = new Date();
+      await subscriber.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Subscription confirmed successfully",
+      data: {
+        email: subscriber.email,
+        categories: subscriber.categories,
+        subjects: subscriber.subjects,
+      },
+    });
+  } catch (error) {
+    console.error("Error confirming subscription:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error confirming subscription",
+    });
+  }
+};
+
+// Unsubscribe from the link in an email, also called by mail clients for one-click unsubscribe
+export const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    let subscriberId: string;
+    try {
+      subscriberId = verifySubscriberToken(req.params.token as string, "newsletter-unsubscribe").sid;
+    } catch {
+      return res.status(400).json({
+        success: false,
+        message: "Invalid unsubscribe link",
+      });
+    }
+
+    await Subscriber.updateOne(
+      { _id: subscriberId, status: { $ne: ESubscriberStatus.UNSUBSCRIBED } },
+      { status: ESubscriberStatus.UNSUBSCRIBED, unsubscribedAt: new Date() }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: "You have been unsubscribed",
+    });
+  } catch (error) {
+    console.error("Error unsubscribing:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error unsubscribing",
+    });
+  }
+};
+
+// Get all subscribers with pagination (Admin only)
+export const getAllSubscribers = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const category = req.query.category as string;
+    const subject = req.query.subject as string;
+    const search = req.query.search as string;
+
+    const query: any = {};
+
+    if (status && Object.values(ESubscriberStatus).includes(status as ESubscriberStatus)) {
+      query.status = status;
+    }
+    if (category) query.categories = category;
+    if (subject) query.subjects = subject;
+
+    if (search) {
+      const pattern = search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      query.$or = [
+        { email: { $regex: pattern, $options: "i" } },
+        { name: { $regex: pattern, $options: "i" } },
+      ];
+    }
+
+    const subscribers = await Subscriber.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await Subscriber.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        subscribers,
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching subscribers:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error fetching subscribers",
+    });
+  }
+};
+
+// Remove a subscriber and their data (Admin only)
+export const deleteSubscriber = async (req: Request, res: Response) => {
+  try {
+    const subscriber = await Subscriber.findByIdAndDelete(req.params.id);
+    if (!subscriber) {
+      return res.status(404).json({
+        success: false,
+        message: "Subscriber not found",
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Subscriber deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting subscriber:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error deleting subscriber",
+    });
+  }
+};
+
+// Email newly published blogs to a segment of subscribers (Admin only)
+export const sendNewsletterDigest = async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        errors: errors.array(),
+      });
+    }
+
+    const { categories, subjects } = req.body;
+    const days = parseInt(process.env.NEWSLETTER_DIGEST_DAYS || '7', 10);
+    const since = req.body.since
+      ? new Date(req.body.since)
+      : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const summary = await sendBlogDigest({ categories, subjects }, since);
+
+    res.status(200).json({
+      success: true,
+      message: summary.blogs === 0
+        ? "No blogs have been published in this segment since then"
+        : `Digest queued for ${summary.queued} subscribers`,
+      data: {
+        since,
+        ...summary,
+      },
+    });
+  } catch (error) {
+    console.error("Error sending newsletter digest:", error);
+    res.status(500).json({
+      success: false,
+      message: "Error sending newsletter digest",
+    });
+  }
+};
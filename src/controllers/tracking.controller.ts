@@ -0,0 +1,73 @@
+import { Response } from 'express';
+import { IOrder } from '@/models/order.model';
+import OrderMessage, { EMessageSender } from '@/models/orderMessage.model';
+import { MulterFile } from '@/types/multer';
+import { toTrackedOrder } from '@/utils/order.utils';
+
+// Get the order behind a tracking link
+export const getTrackedOrder = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+
+    const unreadMessages = await OrderMessage.countDocuments({
+      order: order._id,
+      sender: EMessageSender.STAFF,
+      readAt: { $exists: false },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Order retrieved successfully',
+      data: {
+        ...toTrackedOrder(order),
+        unreadMessages,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching tracked order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
+
+// Upload additional files to an order from the tracking page
+export const uploadTrackedOrderFiles = async (req: any, res: Response) => {
+  try {
+    const order: IOrder = req.order;
+    const files = (req.files as MulterFile[]) || [];
+
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No files uploaded',
+      });
+    }
+
+    const attachments = files.map(file => ({
+      url: file.path,
+      name: file.originalname,
+      size: file.size,
+      type: file.mimetype,
+      uploadedAt: new Date(),
+    }));
+
+    order.attachments.push(...attachments);
+    await order.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Files uploaded successfully',
+      data: {
+        attachments: order.attachments,
+      },
+    });
+  } catch (error) {
+    console.error('Error uploading tracked order files:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error. Please try again later.',
+    });
+  }
+};
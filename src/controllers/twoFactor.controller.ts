@@ -0,0 +1,202 @@
+import { Response } from "express";
+import argon2 from "argon2";
+import QRCode from "qrcode";
+import User from "@/models/user.model";
+import { ESessionRevokedReason } from "@/models/session.model";
+import { revokeUserSessions } from "@/utils/session.utils";
+import { generateTotpSecret, getOtpAuthUrl, verifyTotp } from "@/utils/totp.utils";
+import {
+  TWO_FACTOR_SELECT,
+  clearTwoFactor,
+  consumeTotpCode,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  getTwoFactorIssuer,
+  isTwoFactorPolicyRole,
+  verifySecondFactor,
+} from "@/utils/twoFactor.utils";
+import { getSetting } from "@/utils/setting.utils";
+
+// GET /api/auth/2fa - Two-factor status of the logged in user
+export const getTwoFactorStatus = async (req: any, res: Response) => {
+  try {
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+
+    const required = isTwoFactorPolicyRole(user.role) && await getSetting("requireAdminTwoFactor");
+
+    res.status(200).json({
+      success: true,
+      data: {
+        enabled: user.twoFactor?.enabled || false,
+        enabledAt: user.twoFactor?.enabledAt,
+        required,
+        recoveryCodesRemaining: (user.twoFactor?.recoveryCodes || []).filter((code) => !code.usedAt).length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error);
+    res.status(500).json({ success: false, message: "Error fetching two-factor status" });
+  }
+};
+
+// POST /api/auth/2fa/setup - Start enrolment, returns the secret and a QR code for the authenticator app
+export const setupTwoFactor = async (req: any, res: Response) => {
+  try {
+    const user = await User.findById(req.user._id);
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({ success: false, message: "Two-factor authentication is already enabled" });
+    }
+
+    // Kept as pending until the first code proves the app was set up
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: user._id }, { "twoFactor.pendingSecret": encryptSecret(secret) });
+
+    const otpauthUrl = getOtpAuthUrl(secret, user.email, getTwoFactorIssuer());
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the QR code with your authenticator app, then confirm with a code",
+      data: { secret, otpauthUrl, qrCode },
+    });
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error);
+    res.status(500).json({ success: false, message: "Error starting two-factor setup" });
+  }
+};
+
+// POST /api/auth/2fa/enable - Finish enrolment with a code from the app
+// Recovery codes are only returned here, other sessions are logged out
+export const enableTwoFactor = async (req: any, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({ success: false, message: "Code is required" });
+    }
+
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({ success: false, message: "Two-factor authentication is already enabled" });
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      return res.status(400).json({ success: false, message: "Start two-factor setup first" });
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactor.pendingSecret), code);
+    if (step === null) {
+      return res.status(400).json({ success: false, message: "Invalid code" });
+    }
+
+    const { codes, records } = generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          "twoFactor.enabled": true,
+          "twoFactor.secret": user.twoFactor.pendingSecret,
+          "twoFactor.lastUsedStep": step,
+          "twoFactor.recoveryCodes": records,
+          "twoFactor.enabledAt": new Date(),
+        },
+        $unset: { "twoFactor.pendingSecret": "" },
+      }
+    );
+
+    // Sessions started with only a password do not carry over
+    await revokeUserSessions(user._id, ESessionRevokedReason.REVOKED, req.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication enabled. Store your recovery codes somewhere safe",
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    console.error("Error enabling two-factor authentication:", error);
+    res.status(500).json({ success: false, message: "Error enabling two-factor authentication" });
+  }
+};
+
+// POST /api/auth/2fa/disable - Turn two-factor off, needs the password and a code
+export const disableTwoFactor = async (req: any, res: Response) => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+    if (!password || typeof password !== "string") {
+      return res.status(400).json({ success: false, message: "Password is required" });
+    }
+
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+
+    if (!user.twoFactor?.enabled) {
+      return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+    }
+
+    if (!(await argon2.verify(user.password, password))) {
+      return res.status(401).json({ success: false, message: "Invalid password" });
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      return res.status(401).json({ success: false, message: "Invalid two-factor code" });
+    }
+
+    await clearTwoFactor(user._id);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error);
+    res.status(500).json({ success: false, message: "Error disabling two-factor authentication" });
+  }
+};
+
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes, the old ones stop working
+export const regenerateRecoveryCodes = async (req: any, res: Response) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({ success: false, message: "Code is required" });
+    }
+
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, message: "User not found" });
+    }
+
+    if (!user.twoFactor?.enabled || !user.twoFactor.secret) {
+      return res.status(400).json({ success: false, message: "Two-factor authentication is not enabled" });
+    }
+
+    if (!(await consumeTotpCode(user, user.twoFactor.secret, code))) {
+      return res.status(401).json({ success: false, message: "Invalid two-factor code" });
+    }
+
+    const { codes, records } = generateRecoveryCodes();
+    await User.updateOne({ _id: user._id }, { "twoFactor.recoveryCodes": records });
+
+    res.status(200).json({
+      success: true,
+      message: "New recovery codes generated. Store them somewhere safe",
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    res.status(500).json({ success: false, message: "Error regenerating recovery codes" });
+  }
+};
@@ -1,5 +1,12 @@
 import { Request, Response } from "express";
 import User, { EUserRole } from "@/models/user.model";
+import Session, { ESessionRevokedReason } from "@/models/session.model";
+import { ObjectId } from "mongodb";
+import { getActiveSessions, revokeSession, revokeUserSessions, toSessionSummary } from "@/utils/session.utils";
+import { sendInvitationLink } from "@/utils/userToken.utils";
+import { clearTwoFactor } from "@/utils/twoFactor.utils";
+import argon2 from "argon2";
+import crypto from "crypto";
 
 interface PaginationQuery {
   page?: string;
@@ -134,6 +141,11 @@ export const verifyUser = async (req: any, res: Response): Promise<void> => {
     user.verified = verified;
     await user.save();
 
+    // An unverified user is logged out everywhere
+    if (!verified) {
+      await revokeUserSessions(user._id, ESessionRevokedReason.REVOKED);
+    }
+
     res.status(200).json({
       success: true,
       data: {
@@ -260,4 +272,201 @@ export const getUserById = async (req: any, res: Response): Promise<void> => {
       error: error.message
     });
   }
-};
\ No newline at end of file
+};
+
+export const getUserSessions = async (req: any, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id).select("_id");
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found"
+      });
+      return;
+    }
+
+    const sessions = await getActiveSessions(user._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => toSessionSummary(session, req.sessionId))
+      },
+      message: "Sessions retrieved successfully"
+    });
+  } catch (error: any) {
+    console.error("Error fetching user sessions:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch user sessions",
+      error: error.message
+    });
+  }
+};
+
+export const revokeUserSession = async (req: any, res: Response): Promise<void> => {
+  try {
+    const { id, sessionId } = req.params;
+
+    // Malformed ids can not match a session, answer like any other unknown one instead of failing the cast
+    const session = ObjectId.isValid(id) && ObjectId.isValid(sessionId)
+      ? await Session.findOne({ _id: sessionId, user: id })
+      : null;
+    if (!session || session.revokedAt) {
+      res.status(404).json({
+        success: false,
+        message: "Session not found"
+      });
+      return;
+    }
+
+    await revokeSession(session._id, ESessionRevokedReason.REVOKED);
+
+    res.status(200).json({
+      success: true,
+      message: "Session revoked successfully"
+    });
+  } catch (error: any) {
+    console.error("Error revoking user session:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke user session",
+      error: error.message
+    });
+  }
+};
+
+export const revokeAllUserSessions = async (req: any, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id).select("_id");
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found"
+      });
+      return;
+    }
+
+    // A super admin clearing their own sessions keeps the one they are using
+    const exceptSessionId = req.user._id.toString() === id ? req.sessionId : undefined;
+    const revoked = await revokeUserSessions(user._id, ESessionRevokedReason.REVOKED, exceptSessionId);
+
+    res.status(200).json({
+      success: true,
+      data: { revoked },
+      message: `${revoked} session(s) revoked successfully`
+    });
+  } catch (error: any) {
+    console.error("Error revoking user sessions:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to revoke user sessions",
+      error: error.message
+    });
+  }
+};
+
+export const inviteUser = async (req: any, res: Response): Promise<void> => {
+  try {
+    const { name, email, role = EUserRole.USER } = req.body;
+
+    if (!name || !email) {
+      res.status(400).json({
+        success: false,
+        message: "Name and email are required"
+      });
+      return;
+    }
+
+    if (!Object.values(EUserRole).includes(role as EUserRole)) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid role provided",
+        validRoles: Object.values(EUserRole)
+      });
+      return;
+    }
+
+    let user = await User.findOne({ email });
+
+    // Inviting someone again before they accepted sends a fresh link
+    if (user && !(user.invitedBy && !user.inviteAcceptedAt)) {
+      res.status(400).json({
+        success: false,
+        message: "Email already exists"
+      });
+      return;
+    }
+
+    if (!user) {
+      // The invitee chooses their own password, this one is never shared
+      user = new User({
+        email,
+        password: await argon2.hash(crypto.randomBytes(32).toString("hex")),
+        verified: false,
+      });
+    }
+    user.name = name;
+    user.role = role as EUserRole;
+    user.invitedBy = req.user._id;
+    await user.save();
+
+    const queued = await sendInvitationLink(user, { name: req.user.name });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        user: {
+          _id: user._id,
+          name: user.name,
+          email: user.email,
+          verified: user.verified,
+          role: user.role
+        },
+        invitationQueued: queued
+      },
+      message: queued ? "Invitation sent successfully" : "User created but the invitation email could not be queued"
+    });
+  } catch (error: any) {
+    console.error("Error inviting user:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to invite user",
+      error: error.message
+    });
+  }
+};
+
+// For a user who lost both their authenticator and recovery codes, they can set two-factor up again after logging in
+export const resetUserTwoFactor = async (req: any, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id).select("_id twoFactor.enabled");
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: "User not found"
+      });
+      return;
+    }
+
+    await clearTwoFactor(user._id);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication reset successfully"
+    });
+  } catch (error: any) {
+    console.error("Error resetting two-factor authentication:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to reset two-factor authentication",
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,386 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import Order, { IOrder, EOrderStatus, EAssignmentStatus } from '@/models/order.model';
+import User, { EUserRole } from '@/models/user.model';
+import { sendWriterAssignmentEmail } from '@/utils/email.utils';
+import { toOrderFormData, toPublicDeliverable, transitionOrderStatus } from '@/utils/order.utils';
+
+// Orders that still need work from a writer
+const OPEN_STATUSES = [EOrderStatus.RECEIVED, EOrderStatus.QUOTED, EOrderStatus.PAID, EOrderStatus.IN_PROGRESS];
+
+// What a writer sees of an order - no customer contact details, payments or internal notes
+const toWriterOrder = (order: IOrder) => ({
+  _id: order._id,
+  orderId: order.orderId,
+  status: order.status,
+  subjectCode: order.subjectCode,
+  description: order.description,
+  pages: order.pages,
+  academicLevel: order.academicLevel,
+  deadline: order.deadline,
+  deadlineAt: order.deadlineAt,
+  attachments: order.attachments,
+  deliverables: order.deliverables.map(toPublicDeliverable),
+  assignment: order.assignment ? {
+    status: order.assignment.status,
+    assignedAt: order.assignment.assignedAt,
+    respondedAt: order.assignment.respondedAt,
+    progress: order.assignment.progress,
+    progressNote: order.assignment.progressNote,
+    progressUpdatedAt: order.assignment.progressUpdatedAt,
+  } : undefined,
+  createdAt: order.createdAt,
+});
+
+// Find an order assigned to the logged in writer
+const findWriterOrder = async (id: string, writerId: any) =>
+  isValidObjectId(id) ? Order.findOne({ _id: id, "assignment.writer": writerId }) : null;
+
+// Assign an order to a writer (Admin only)
+export const assignOrderToWriter = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { writerId } = req.body;
+
+    if (!writerId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Writer ID is required',
+      });
+    }
+
+    const writer = isValidObjectId(writerId) ? await User.findById(writerId) : null;
+    if (!writer || writer.role !== EUserRole.WRITER) {
+      return res.status(400).json({
+        success: false,
+        message: 'Writer not found',
+      });
+    }
+
+    const order = isValidObjectId(id) ? await Order.findById(id) : null;
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (!OPEN_STATUSES.includes(order.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot assign an order with status ${order.status}`,
+      });
+    }
+
+    // Assigning (or reassigning) always starts a fresh assignment awaiting the writer's answer
+    order.assignment = {
+      writer: writer._id,
+      status: EAssignmentStatus.PENDING,
+      assignedBy: (req as any).user._id,
+      assignedAt: new Date(),
+      progress: 0,
+    };
+    await order.save();
+
+    const emailQueued = await sendWriterAssignmentEmail(writer, toOrderFormData(order), order.deadlineAt);
+
+    res.status(200).json({
+      success: true,
+      message: `Order assigned to ${writer.name} successfully`,
+      data: {
+        _id: order._id,
+        orderId: order.orderId,
+        assignment: order.assignment,
+        emailQueued,
+      },
+    });
+  } catch (error) {
+    console.error('Error assigning order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error assigning order',
+    });
+  }
+};
+
+// Open orders and upcoming deadlines per writer (Admin only)
+export const getWriterWorkload = async (req: Request, res: Response) => {
+  try {
+    const days = parseInt(req.query.days as string) || 7;
+    const now = new Date();
+    const upcomingUntil = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const writers = await User.find({ role: EUserRole.WRITER })
+      .select('name email verified')
+      .sort({ name: 1 })
+      .lean();
+
+    const workload = await Order.aggregate([
+      {
+        $match: {
+          "assignment.writer": { $exists: true },
+          "assignment.status": { $ne: EAssignmentStatus.DECLINED },
+          status: { $in: OPEN_STATUSES },
+        },
+      },
+      { $sort: { deadlineAt: 1 } },
+      {
+        $group: {
+          _id: "$assignment.writer",
+          openOrders: { $sum: 1 },
+          pendingAcceptance: {
+            $sum: { $cond: [{ $eq: ["$assignment.status", EAssignmentStatus.PENDING] }, 1, 0] },
+          },
+          totalPages: { $sum: "$pages" },
+          orders: {
+            $push: {
+              _id: "$_id",
+              orderId: "$orderId",
+              status: "$status",
+              pages: "$pages",
+              deadlineAt: "$deadlineAt",
+              assignmentStatus: "$assignment.status",
+              progress: "$assignment.progress",
+            },
+          },
+        },
+      },
+    ]);
+
+    const workloadByWriter = new Map(workload.map(item => [item._id.toString(), item]));
+
+    const data = writers.map(writer => {
+      const item = workloadByWriter.get(writer._id.toString());
+      const orders: any[] = item?.orders || [];
+      return {
+        writer,
+        openOrders: item?.openOrders || 0,
+        pendingAcceptance: item?.pendingAcceptance || 0,
+        totalPages: item?.totalPages || 0,
+        overdue: orders.filter(order => order.deadlineAt && order.deadlineAt < now).length,
+        upcomingDeadlines: orders.filter(order =>
+          order.deadlineAt && order.deadlineAt >= now && order.deadlineAt <= upcomingUntil
+        ),
+      };
+    });
+
+    const unassignedOrders = await Order.countDocuments({
+      status: { $in: OPEN_STATUSES },
+      $or: [
+        { assignment: { $exists: false } },
+        { "assignment.status": EAssignmentStatus.DECLINED },
+      ],
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        writers: data,
+        unassignedOrders,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching writer workload:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching writer workload',
+    });
+  }
+};
+
+// Get the orders assigned to the logged in writer
+export const getAssignedOrders = async (req: any, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const assignmentStatus = req.query.assignmentStatus as string;
+
+    const query: any = { "assignment.writer": req.user._id };
+
+    // Order status filter
+    if (status && Object.values(EOrderStatus).includes(status as EOrderStatus)) {
+      query.status = status;
+    }
+
+    // Assignment status filter
+    if (assignmentStatus && Object.values(EAssignmentStatus).includes(assignmentStatus as EAssignmentStatus)) {
+      query["assignment.status"] = assignmentStatus;
+    }
+
+    const orders = await Order.find(query)
+      .sort({ deadlineAt: 1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit);
+
+    const total = await Order.countDocuments(query);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orders: orders.map(toWriterOrder),
+        pagination: {
+          current: page,
+          total: Math.ceil(total / limit),
+          totalItems: total,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching assigned orders:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching assigned orders',
+    });
+  }
+};
+
+// Get a single assigned order
+export const getAssignedOrderById = async (req: any, res: Response) => {
+  try {
+    const order = await findWriterOrder(req.params.id, req.user._id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: toWriterOrder(order),
+    });
+  } catch (error) {
+    console.error('Error fetching assigned order:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching assigned order',
+    });
+  }
+};
+
+// Accept an assigned order - a paid order moves to In_Progress
+export const acceptAssignment = async (req: any, res: Response) => {
+  try {
+    const order = await findWriterOrder(req.params.id, req.user._id);
+    if (!order || !order.assignment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (order.assignment.status !== EAssignmentStatus.PENDING) {
+      return res.status(400).json({
+        success: false,
+        message: `Assignment has already been ${order.assignment.status.toLowerCase()}`,
+      });
+    }
+
+    order.assignment.status = EAssignmentStatus.ACCEPTED;
+    order.assignment.respondedAt = new Date();
+
+    if (order.status === EOrderStatus.PAID) {
+      transitionOrderStatus(order, EOrderStatus.IN_PROGRESS, req.user._id, 'Accepted by writer');
+    }
+
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment accepted successfully',
+      data: toWriterOrder(order),
+    });
+  } catch (error) {
+    console.error('Error accepting assignment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error accepting assignment',
+    });
+  }
+};
+
+// Decline an assigned order so admins can reassign it
+export const declineAssignment = async (req: any, res: Response) => {
+  try {
+    const { reason } = req.body || {};
+
+    const order = await findWriterOrder(req.params.id, req.user._id);
+    if (!order || !order.assignment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (order.assignment.status !== EAssignmentStatus.PENDING) {
+      return res.status(400).json({
+        success: false,
+        message: `Assignment has already been ${order.assignment.status.toLowerCase()}`,
+      });
+    }
+
+    order.assignment.status = EAssignmentStatus.DECLINED;
+    order.assignment.respondedAt = new Date();
+    order.assignment.declineReason = reason;
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment declined successfully',
+    });
+  } catch (error) {
+    console.error('Error declining assignment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error declining assignment',
+    });
+  }
+};
+
+// Update progress on an accepted order
+export const updateAssignmentProgress = async (req: any, res: Response) => {
+  try {
+    const { progress, note } = req.body;
+    const progressValue = parseInt(progress, 10);
+
+    if (isNaN(progressValue) || progressValue < 0 || progressValue > 100) {
+      return res.status(400).json({
+        success: false,
+        message: 'Progress must be a number between 0 and 100',
+      });
+    }
+
+    const order = await findWriterOrder(req.params.id, req.user._id);
+    if (!order || !order.assignment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Order not found',
+      });
+    }
+
+    if (order.assignment.status !== EAssignmentStatus.ACCEPTED) {
+      return res.status(400).json({
+        success: false,
+        message: 'Accept the assignment before reporting progress',
+      });
+    }
+
+    order.assignment.progress = progressValue;
+    order.assignment.progressNote = note;
+    order.assignment.progressUpdatedAt = new Date();
+    await order.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Progress updated successfully',
+      data: toWriterOrder(order),
+    });
+  } catch (error) {
+    console.error('Error updating assignment progress:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating progress',
+    });
+  }
+};
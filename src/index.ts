@@ -4,6 +4,8 @@ dotenv.config();
 import { v2 as cloudinary } from 'cloudinary';
 import app from "@/app";
 import { disconnectFromDatabase, connectToDatabase } from "@/config/db.config";
+import { startDeadlineScheduler } from "@/utils/sla.utils";
+import { startEmailOutboxWorker } from "@/utils/emailOutbox.utils";
 
 // Configure Cloudinary after environment variables are loaded
 if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
@@ -30,6 +32,8 @@ app.listen(port, () => {
 connectToDatabase()
   .then(() => {
     console.log("MongoDB connected successfully");
+    startDeadlineScheduler();
+    startEmailOutboxWorker();
   })
   .catch((err) => {
     console.error("MongoDB connection error:", err.message);
@@ -1,6 +1,9 @@
 import { Response, Request, NextFunction } from "express";
 import jwt from "jsonwebtoken";
-import User, { EUserRole } from "@/models/user.model";
+import User, { EUserRole, IUser } from "@/models/user.model";
+import { ISession } from "@/models/session.model";
+import { getActiveSession, touchSession } from "@/utils/session.utils";
+import { needsTwoFactorSetup } from "@/utils/twoFactor.utils";
 import { ObjectId } from "mongodb";
 
 interface DecodedToken {
@@ -12,6 +15,7 @@ interface DecodedToken {
     ip: string;
   };
   version: number;
+  sid?: string; // Session the token was issued for, missing on version 1 tokens
   iat: number;
   exp: number;
 }
@@ -26,41 +30,76 @@ export interface AuthenticatedRequest extends Request {
     createdAt: Date;
     updatedAt: Date;  
   };
+  sessionId: string;
 }
 
+type AuthResult =
+  | { user: IUser; session: ISession }
+  | { status: number; error: string };
+
+// Shared by the access validators, checks the token against the session it was issued for
+// Token errors are thrown so each validator can answer expired and invalid tokens itself
+const authenticateRequest = async (req: any): Promise<AuthResult> => {
+  // Get token from cookie or header
+  const token =
+    req.cookies.token || req.header("Authorization")?.replace("Bearer ", "");
+
+  if (!token) {
+    return { status: 401, error: "Not authenticated" };
+  }
+
+  const decoded = jwt.verify(
+    token,
+    process.env.JWT_SECRET || "your-secret-key"
+  ) as DecodedToken;
+
+  // Tokens issued before sessions existed can not be revoked, so they are no longer accepted
+  if (decoded.version < 2 || !decoded.sid) {
+    return { status: 401, error: "Session expired" };
+  }
+
+  // The token only works from the browser it was issued to
+  // The IP is not compared since it changes on mobile networks
+  const userAgent = (req.headers["user-agent"] || "unknown").substring(0, 100);
+  if (decoded.fingerprint?.userAgent !== userAgent) {
+    return { status: 401, error: "Invalid token" };
+  }
+
+  const session = await getActiveSession(decoded.sid, decoded.id);
+  if (!session) {
+    return { status: 401, error: "Session revoked" };
+  }
+
+  // Fetch the user from database to get the complete user object
+  const user = await User.findById(decoded.id);
+  if (!user) {
+    return { status: 404, error: "User not found" };
+  }
+
+  touchSession(session);
+  return { user, session };
+};
+
 export const validateUserAccess = async (
   req: any,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Get token from cookie or header
-    let token =
-      req.cookies.token || req.header("Authorization")?.replace("Bearer ", "");
-
-    if (!token) {
-      return res.status(401).json({ error: "Not authenticated" });
-    }
-
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "your-secret-key"
-    ) as DecodedToken;
-
-    // Fetch the user from database to get the complete user object
-    const user = await User.findById(decoded.id);
-
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
+    const auth = await authenticateRequest(req);
+    if ("error" in auth) {
+      return res.status(auth.status).json({ error: auth.error });
     }
+    const { user } = auth;
 
     // Check if the user is verified
     if (!user.verified) {
       return res.status(403).json({ error: "User not verified" });
     }
 
-    // Attach user to request object
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = auth.session._id.toString();
 
     next();
   } catch (error: any) {
@@ -72,39 +111,63 @@ export const validateUserAccess = async (
   }
 };
 
-export const validateAdminAccess = async (
+// Attach the logged in user when there is a valid session, but let anonymous requests through
+export const attachUserIfAuthenticated = async (
   req: any,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    // Get token from cookie or header
-    let token =
-      req.cookies.token || req.header("Authorization")?.replace("Bearer ", "");
-
-    if (!token) {
-      return res.status(401).json({ error: "Not authenticated" });
+    const auth = await authenticateRequest(req);
+    if (!("error" in auth) && auth.user.verified) {
+      req.user = auth.user;
+      req.sessionId = auth.session._id.toString();
     }
+  } catch (error) {
+    // An expired or invalid token just means the request is treated as a guest
+  }
+  next();
+};
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "your-secret-key"
-    ) as DecodedToken;
-
-    // Fetch the user from database to get the complete user object
-    const user = await User.findById(decoded.id);
+// Answer the request and return false when the two-factor policy blocks the user
+// A policy that can not be loaded keeps admins out instead of letting them in
+const enforceTwoFactorPolicy = async (user: IUser, res: Response): Promise<boolean> => {
+  try {
+    if (await needsTwoFactorSetup(user)) {
+      res.status(403).json({ error: "Two-factor authentication required", twoFactorSetupRequired: true });
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error loading the two-factor policy:", error);
+    res.status(503).json({ error: "Service temporarily unavailable, please try again" });
+    return false;
+  }
+};
 
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
+export const validateAdminAccess = async (
+  req: any,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const auth = await authenticateRequest(req);
+    if ("error" in auth) {
+      return res.status(auth.status).json({ error: auth.error });
     }
+    const { user } = auth;
 
     // Check if the user has admin role
     if (user.role !== EUserRole.ADMIN && user.role !== EUserRole.SUPER_ADMIN) {
       return res.status(403).json({ error: "Access denied" });
     }
 
-    // Attach user to request object
+    // Enforce the requireAdminTwoFactor setting, the 2FA routes under /api/auth stay open for setup
+    if (!(await enforceTwoFactorPolicy(user, res))) return;
+
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = auth.session._id.toString();
 
     next();
   } catch (error: any) {
@@ -121,33 +184,57 @@ export const validateSuperAdminAccess = async (
   next: NextFunction
 ) => {
   try {
-    // Get token from cookie or header
-    let token =
-      req.cookies.token || req.header("Authorization")?.replace("Bearer ", "");
+    const auth = await authenticateRequest(req);
+    if ("error" in auth) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    const { user } = auth;
 
-    if (!token) {
-      return res.status(401).json({ error: "Not authenticated" });
+    // Check if the user has super admin role
+    if (user.role !== EUserRole.SUPER_ADMIN) {
+      return res.status(403).json({ error: "Super admin access required" });
     }
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || "your-secret-key"
-    ) as DecodedToken;
+    if (!(await enforceTwoFactorPolicy(user, res))) return;
 
-    // Fetch the user from database to get the complete user object
-    const user = await User.findById(decoded.id);
+    // Attach user and session to request object
+    req.user = user;
+    req.sessionId = auth.session._id.toString();
 
-    if (!user) {
-      return res.status(404).json({ error: "User not found" });
+    next();
+  } catch (error: any) {
+    if (error.name === "TokenExpiredError") {
+      return res.status(401).json({ error: "Token expired" });
     }
+    res.status(400).json({ error: "Invalid token" });
+  }
+};
 
-    // Check if the user has super admin role
-    if (user.role !== EUserRole.SUPER_ADMIN) {
-      return res.status(403).json({ error: "Super admin access required" });
+export const validateWriterAccess = async (
+  req: any,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const auth = await authenticateRequest(req);
+    if ("error" in auth) {
+      return res.status(auth.status).json({ error: auth.error });
+    }
+    const { user } = auth;
+
+    // Check if the user has the writer role
+    if (user.role !== EUserRole.WRITER) {
+      return res.status(403).json({ error: "Writer access required" });
+    }
+
+    // Check if the user is verified
+    if (!user.verified) {
+      return res.status(403).json({ error: "User not verified" });
     }
 
-    // Attach user to request object
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = auth.session._id.toString();
 
     next();
   } catch (error: any) {
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from "express";
+
+// Scheduled jobs (e.g. Vercel Cron) authenticate with "Authorization: Bearer <CRON_SECRET>"
+export const validateCronSecret = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const secret = process.env.CRON_SECRET;
+  const token = req.header("Authorization")?.replace("Bearer ", "");
+
+  if (!secret || token !== secret) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+
+  next();
+};
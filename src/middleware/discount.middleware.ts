@@ -0,0 +1,97 @@
+import { body } from "express-validator";
+import { EDiscountType } from "@/models/discountCode.model";
+
+// Validation middleware for discount codes
+export const validateDiscountCode = [
+  body("code")
+    .trim()
+    .notEmpty()
+    .withMessage("Code is required")
+    .matches(/^[A-Za-z0-9_-]{3,40}$/)
+    .withMessage("Code must be 3 to 40 letters, numbers, dashes or underscores"),
+
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Description must not exceed 500 characters"),
+
+  body("type")
+    .isIn(Object.values(EDiscountType))
+    .withMessage(`Type must be one of: ${Object.values(EDiscountType).join(", ")}`),
+
+  body("value")
+    .isFloat({ gt: 0 })
+    .withMessage("Value must be a positive number")
+    .custom((value, { req }) => {
+      if (req.body.type === EDiscountType.PERCENTAGE && parseFloat(value) > 100) {
+        throw new Error("Percentage discounts cannot be more than 100");
+      }
+      return true;
+    }),
+
+  body("active")
+    .optional()
+    .isBoolean()
+    .withMessage("Active must be a boolean"),
+
+  body("validFrom")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Valid from must be a date"),
+
+  body("validUntil")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Valid until must be a date")
+    .custom((value, { req }) => {
+      if (req.body.validFrom && new Date(value) <= new Date(req.body.validFrom)) {
+        throw new Error("Valid until must be after valid from");
+      }
+      return true;
+    }),
+
+  body(["maxRedemptions", "maxRedemptionsPerCustomer"])
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Redemption limits must be positive whole numbers"),
+
+  body("subjects")
+    .optional()
+    .isArray()
+    .withMessage("Subjects must be an array"),
+
+  body("subjects.*")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Each subject must be a non-empty string"),
+
+  body(["minPages", "maxPages"])
+    .optional({ values: "null" })
+    .isInt({ min: 1, max: 1000 })
+    .withMessage("Page limits must be between 1 and 1000"),
+
+  body("maxPages")
+    .optional({ values: "null" })
+    .custom((value, { req }) => {
+      if (req.body.minPages && parseInt(value, 10) < parseInt(req.body.minPages, 10)) {
+        throw new Error("Maximum pages must not be less than minimum pages");
+      }
+      return true;
+    }),
+];
+
+// Validation middleware for checking a code against a quote
+export const validateDiscountCheck = [
+  body("code")
+    .trim()
+    .notEmpty()
+    .withMessage("Discount code is required"),
+
+  body("email")
+    .optional()
+    .isEmail()
+    .withMessage("Please provide a valid email address")
+    .normalizeEmail(),
+];
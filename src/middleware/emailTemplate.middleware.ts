@@ -0,0 +1,63 @@
+import { body } from "express-validator";
+
+// Validation middleware for saving a new email template version
+export const validateEmailTemplateVersion = [
+  body("subject")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Subject is required")
+    .isLength({ max: 500 })
+    .withMessage("Subject must not exceed 500 characters"),
+
+  body("html")
+    .isString()
+    .notEmpty()
+    .withMessage("HTML body is required")
+    .isLength({ max: 200000 })
+    .withMessage("HTML body must not exceed 200000 characters"),
+
+  body("text")
+    .isString()
+    .notEmpty()
+    .withMessage("Plaintext body is required")
+    .isLength({ max: 100000 })
+    .withMessage("Plaintext body must not exceed 100000 characters"),
+
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage("Note must not exceed 500 characters"),
+
+  body("activate")
+    .optional()
+    .isBoolean()
+    .withMessage("Activate must be a boolean"),
+];
+
+// Validation middleware for choosing the active version, null goes back to the built-in template
+export const validateActiveVersion = [
+  body("version")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Version must be a positive whole number"),
+];
+
+// Validation middleware for previewing a template, any part left out uses the saved content
+export const validateEmailTemplatePreview = [
+  body(["subject", "html", "text"])
+    .optional()
+    .isString()
+    .withMessage("Template parts must be strings"),
+
+  body("version")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Version must be a positive whole number"),
+
+  body("data")
+    .optional()
+    .isObject()
+    .withMessage("Data must be an object"),
+];
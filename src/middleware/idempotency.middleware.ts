@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { Response, NextFunction } from "express";
+import IdempotencyKey, { EIdempotencyStatus } from "@/models/idempotencyKey.model";
+
+const KEY_TTL_MS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "24", 10) * 60 * 60 * 1000;
+// A key still processing after this long belongs to a request that never finished (e.g. a crash)
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+interface IdempotencyOptions {
+  ignoreFields?: string[]; // Fields that may change between retries, e.g. single-use CAPTCHA tokens
+}
+
+// Hash of what the request asks for, fields in a fixed order plus the customer email and uploaded file names
+// Must run after the body parser so multipart fields are included
+const getRequestHash = (req: any, ignoreFields: string[]): string => {
+  const body = req.body || {};
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  const files = (Array.isArray(req.files) ? req.files : []).map((file: any) => [file.originalname, file.size]);
+  const fields = Object.keys(body)
+    .filter((field) => !ignoreFields.includes(field))
+    .sort()
+    .map((field) => [field, body[field]]);
+
+  return crypto.createHash("sha256").update(JSON.stringify({ email, fields, files })).digest("hex");
+};
+
+// Replay the original response when a request is retried with the same Idempotency-Key header
+// Only successful responses are kept, failed requests release the key so the client can retry
+// Reusing a key for a different payload is rejected with 422 instead of replaying the other request
+export const idempotentRequest = (scope: string, options: IdempotencyOptions = {}) => {
+  return async (req: any, res: Response, next: NextFunction) => {
+    const clientKey = req.get("Idempotency-Key");
+    if (!clientKey) return next();
+
+    if (clientKey.length < 16 || clientKey.length > 255) {
+      return res.status(400).json({
+        success: false,
+        message: "Idempotency-Key must be between 16 and 255 characters",
+      });
+    }
+
+    const key = `${scope}:${clientKey}`;
+    const requestHash = getRequestHash(req, options.ignoreFields || []);
+
+    try {
+      try {
+        await IdempotencyKey.create({ key, requestHash, expiresAt: new Date(Date.now() + KEY_TTL_MS) });
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+
+        const existing = await IdempotencyKey.findOne({ key });
+        if (existing?.requestHash && existing.requestHash !== requestHash) {
+          return res.status(422).json({
+            success: false,
+            message: "This Idempotency-Key was already used for a different request",
+          });
+        }
+
+        if (existing?.status === EIdempotencyStatus.COMPLETED) {
+          res.setHeader("Idempotent-Replayed", "true");
+          return res.status(existing.statusCode || 200).json(existing.response);
+        }
+
+        // Take over a key left behind by a request that never finished, otherwise the original is still running
+        const takenOver = await IdempotencyKey.findOneAndUpdate(
+          { key, status: EIdempotencyStatus.PROCESSING, updatedAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+          { expiresAt: new Date(Date.now() + KEY_TTL_MS) },
+          { new: true }
+        );
+        if (!takenOver) {
+          return res.status(409).json({
+            success: false,
+            message: "A request with this Idempotency-Key is still being processed",
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Error checking idempotency key:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Internal server error. Please try again later.",
+      });
+    }
+
+    // Store the response before sending it, so a retry arriving straight after gets the replay
+    const sendJson = res.json.bind(res);
+    res.json = (body: any) => {
+      const saved = res.statusCode >= 200 && res.statusCode < 300
+        ? IdempotencyKey.updateOne(
+          { key },
+          { status: EIdempotencyStatus.COMPLETED, statusCode: res.statusCode, response: body }
+        )
+        : IdempotencyKey.deleteOne({ key });
+
+      saved
+        .catch((error) => console.error("Error saving idempotency key:", error))
+        .finally(() => sendJson(body));
+      return res;
+    };
+
+    next();
+  };
+};
@@ -0,0 +1,15 @@
+import { body } from "express-validator";
+import { ELeadStatus } from "@/models/lead.model";
+
+// Validation middleware for updating a lead's status
+export const validateLeadStatus = [
+  body("status")
+    .isIn(Object.values(ELeadStatus))
+    .withMessage(`Status must be one of: ${Object.values(ELeadStatus).join(", ")}`),
+
+  body("note")
+    .optional()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Note must not exceed 2000 characters"),
+];
@@ -0,0 +1,100 @@
+import { Response, NextFunction } from "express";
+import Order from "@/models/order.model";
+import { rateLimit } from "@/middleware/rateLimit.middleware";
+import { getCaptchaVerifier } from "@/utils/captcha.utils";
+import { getSubmissionFingerprint } from "@/utils/order.utils";
+
+const RATE_LIMIT_WINDOW_SECONDS = parseInt(process.env.ORDER_RATE_LIMIT_WINDOW_MINUTES || "60", 10) * 60;
+const HONEYPOT_FIELD = process.env.ORDER_HONEYPOT_FIELD || "website";
+const DUPLICATE_WINDOW_MINUTES = parseInt(process.env.ORDER_DUPLICATE_WINDOW_MINUTES || "30", 10);
+
+// Anti-spam fields that change on every attempt, left out when matching a retried submission
+export const ORDER_PROTECTION_FIELDS = [HONEYPOT_FIELD, "captchaToken"];
+
+// Hidden form field that people never see or fill in, bots usually do
+export const rejectHoneypot = (req: any, res: Response, next: NextFunction) => {
+  const value = req.body?.[HONEYPOT_FIELD];
+  if (typeof value === "string" ? value.trim() : value) {
+    console.warn(`Submission to ${req.originalUrl} rejected by honeypot from ${req.ip}`);
+    return res.status(400).json({
+      success: false,
+      message: "Submission rejected",
+    });
+  }
+  next();
+};
+
+// Check the CAPTCHA token when a provider is configured
+export const verifyCaptcha = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const verifier = getCaptchaVerifier();
+    if (!verifier) return next();
+
+    const token = req.body?.captchaToken;
+    const verified = token
+      ? await verifier.verify({ token: String(token), remoteIp: req.ip })
+      : false;
+
+    if (!verified) {
+      return res.status(400).json({
+        success: false,
+        message: "CAPTCHA verification failed. Please try again.",
+      });
+    }
+    next();
+  } catch (error) {
+    console.error("Error verifying captcha:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error. Please try again later.",
+    });
+  }
+};
+
+// Reject the same order submitted again within a short window, e.g. double clicks or resubmitted forms
+export const rejectDuplicateSubmission = async (req: any, res: Response, next: NextFunction) => {
+  try {
+    const fingerprint = getSubmissionFingerprint(req.body || {});
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_MINUTES * 60 * 1000);
+
+    const duplicate = await Order.exists({ submissionFingerprint: fingerprint, createdAt: { $gte: since } });
+    if (duplicate) {
+      return res.status(409).json({
+        success: false,
+        message: "This order has already been submitted. Please check your email for the tracking link.",
+      });
+    }
+
+    req.submissionFingerprint = fingerprint;
+    next();
+  } catch (error) {
+    console.error("Error checking duplicate submission:", error);
+    res.status(500).json({
+      success: false,
+      message: "Internal server error. Please try again later.",
+    });
+  }
+};
+
+// Per-IP limit for the public order form, runs before the multipart parser so floods are turned away before files are buffered
+export const limitOrderSubmissionsByIp = rateLimit({
+  name: "order-submit:ip",
+  limit: parseInt(process.env.ORDER_RATE_LIMIT_IP || "5", 10),
+  windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+  key: (req) => req.ip,
+  message: "Too many orders submitted. Please try again later.",
+});
+
+// Spam and abuse checks that need the parsed form fields, run before any files are stored
+export const protectOrderSubmission = [
+  rejectHoneypot,
+  rateLimit({
+    name: "order-submit:email",
+    limit: parseInt(process.env.ORDER_RATE_LIMIT_EMAIL || "3", 10),
+    windowSeconds: RATE_LIMIT_WINDOW_SECONDS,
+    key: (req) => typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined,
+    message: "Too many orders submitted. Please try again later.",
+  }),
+  verifyCaptcha,
+  rejectDuplicateSubmission,
+];
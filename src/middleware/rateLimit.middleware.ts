@@ -0,0 +1,36 @@
+import { Response, NextFunction } from "express";
+import { consumeRateLimit } from "@/utils/rateLimit.utils";
+
+interface RateLimitOptions {
+  name: string; // Prefix that keeps limits of different endpoints apart
+  limit: number;
+  windowSeconds: number;
+  key: (req: any) => string | undefined; // Skip the limit when no key can be derived
+  message?: string;
+}
+
+// Reject requests over the limit with 429 and a Retry-After header
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const key = options.key(req);
+      if (!key) return next();
+
+      const result = await consumeRateLimit(`${options.name}:${key}`, options.limit, options.windowSeconds);
+      if (!result.allowed) {
+        res.setHeader("Retry-After", result.retryAfterSeconds.toString());
+        return res.status(429).json({
+          success: false,
+          message: options.message || "Too many requests. Please try again later.",
+          retryAfterSeconds: result.retryAfterSeconds,
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Rate limit error:", error);
+      // Do not lock everyone out when the store is unavailable
+      next();
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import { body } from "express-validator";
+import { BlogCategories } from "@/types/blogCategories";
+import { Subjects } from "@/types/subjects";
+
+const segmentValidators = [
+  body("categories")
+    .optional()
+    .isArray()
+    .withMessage("Categories must be an array"),
+
+  body("categories.*")
+    .isIn(BlogCategories)
+    .withMessage("Each category must be a valid blog category"),
+
+  body("subjects")
+    .optional()
+    .isArray()
+    .withMessage("Subjects must be an array"),
+
+  body("subjects.*")
+    .isIn(Subjects)
+    .withMessage("Each subject must be a valid subject"),
+];
+
+// Validation middleware for newsletter signups
+export const validateSubscription = [
+  body("email")
+    .isEmail()
+    .withMessage("Please provide a valid email address")
+    .normalizeEmail({ gmail_remove_dots: false, gmail_remove_subaddress: false }),
+
+  body("name")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Name must not exceed 100 characters"),
+
+  body("source")
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage("Source must not exceed 100 characters"),
+
+  ...segmentValidators,
+];
+
+// Validation middleware for sending a blog digest to a segment
+export const validateDigest = [
+  ...segmentValidators,
+
+  body("since")
+    .optional()
+    .isISO8601()
+    .withMessage("Since must be a date"),
+];
@@ -0,0 +1,41 @@
+import { Response, NextFunction } from "express";
+import Order from "@/models/order.model";
+import { verifyTrackingToken } from "@/utils/tracking.utils";
+
+// Resolve the order behind a tracking link and attach it to req.order
+export const validateTrackingToken = async (
+  req: any,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { token } = req.params;
+
+    if (!token) {
+      return res.status(401).json({ error: "Tracking token required" });
+    }
+
+    const decoded = verifyTrackingToken(token);
+
+    const order = await Order.findById(decoded.oid);
+
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    // Links issued before the last revocation are no longer valid
+    if (decoded.v !== order.trackingTokenVersion) {
+      return res.status(401).json({ error: "Tracking link revoked" });
+    }
+
+    req.order = order;
+
+    next();
+  } catch (error: any) {
+    if (error.name === "TokenExpiredError") {
+      return res.status(401).json({ error: "Tracking link expired" });
+    }
+
+    res.status(400).json({ error: "Invalid tracking link" });
+  }
+};
@@ -0,0 +1,94 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EDiscountType {
+  PERCENTAGE = "Percentage",
+  FIXED = "Fixed"
+}
+
+export interface IDiscountCode extends Document {
+  _id: ObjectId;
+  code: string; // Stored upper case, matched case-insensitively
+  description?: string;
+  type: EDiscountType;
+  value: number; // Percentage (0-100) or fixed amount in the pricing currency
+  active: boolean;
+  validFrom?: Date;
+  validUntil?: Date;
+  maxRedemptions?: number; // Across all customers, empty for unlimited
+  maxRedemptionsPerCustomer?: number; // Per customer email, empty for unlimited
+  redemptionCount: number;
+  subjects: string[]; // Subject names the order's subject code must contain, empty for any subject
+  minPages?: number;
+  maxPages?: number;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DiscountCodeSchema = new Schema<IDiscountCode>({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+  },
+  type: {
+    type: String,
+    enum: EDiscountType,
+    required: true,
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  active: {
+    type: Boolean,
+    default: true,
+  },
+  validFrom: {
+    type: Date,
+  },
+  validUntil: {
+    type: Date,
+  },
+  maxRedemptions: {
+    type: Number,
+    min: 1,
+  },
+  maxRedemptionsPerCustomer: {
+    type: Number,
+    min: 1,
+  },
+  redemptionCount: {
+    type: Number,
+    default: 0,
+  },
+  subjects: [{
+    type: String,
+  }],
+  minPages: {
+    type: Number,
+    min: 1,
+  },
+  maxPages: {
+    type: Number,
+    min: 1,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+}, {
+  timestamps: true,
+})
+
+DiscountCodeSchema.index({ active: 1, validUntil: 1 });
+
+export default model<IDiscountCode>("DiscountCode", DiscountCodeSchema);
@@ -0,0 +1,139 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EEmailOutboxStatus {
+  PENDING = "Pending", // Waiting for its next attempt
+  SENDING = "Sending", // Claimed by a worker
+  SENT = "Sent",
+  FAILED = "Failed" // Gave up after the maximum attempts, admins can resend
+}
+
+export interface IEmailOutboxMessage {
+  from?: string;
+  to: string[];
+  replyTo?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface IEmailOutboxAttempt {
+  attemptedAt: Date;
+  success: boolean;
+  transport: string;
+  messageId?: string;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IEmailOutbox extends Document {
+  _id: ObjectId;
+  type: string; // What the email is for, e.g. order-notification
+  orderId?: string; // Public order id when the email is about an order
+  message: IEmailOutboxMessage;
+  sensitive: boolean; // Carries a login link, the body is hidden from admins and removed once sent
+  status: EEmailOutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // A worker that crashes mid-send releases the message after this
+  lastError?: string;
+  attemptLog: IEmailOutboxAttempt[];
+  messageId?: string;
+  sentAt?: Date;
+  resentBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailOutboxAttemptSchema = new Schema<IEmailOutboxAttempt>({
+  attemptedAt: {
+    type: Date,
+    required: true,
+  },
+  success: {
+    type: Boolean,
+    required: true,
+  },
+  transport: {
+    type: String,
+  },
+  messageId: {
+    type: String,
+  },
+  error: {
+    type: String,
+  },
+  durationMs: {
+    type: Number,
+  },
+}, {
+  _id: false,
+});
+
+const EmailOutboxSchema = new Schema<IEmailOutbox>({
+  type: {
+    type: String,
+    required: true,
+  },
+  orderId: {
+    type: String,
+    index: true,
+  },
+  message: {
+    from: { type: String },
+    to: { type: [String], required: true },
+    replyTo: { type: String },
+    subject: { type: String, required: true },
+    html: { type: String },
+    text: { type: String },
+    headers: { type: Schema.Types.Mixed },
+  },
+  sensitive: {
+    type: Boolean,
+    default: false,
+  },
+  status: {
+    type: String,
+    enum: EEmailOutboxStatus,
+    default: EEmailOutboxStatus.PENDING,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lockedUntil: {
+    type: Date,
+  },
+  lastError: {
+    type: String,
+  },
+  attemptLog: [EmailOutboxAttemptSchema],
+  messageId: {
+    type: String,
+  },
+  sentAt: {
+    type: Date,
+  },
+  resentBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+}, {
+  timestamps: true,
+})
+
+// Worker picks due messages, admins list by status
+EmailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+EmailOutboxSchema.index({ status: 1, createdAt: -1 });
+
+export default model<IEmailOutbox>("EmailOutbox", EmailOutboxSchema);
@@ -0,0 +1,79 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export interface IEmailTemplateVersion {
+  version: number;
+  subject: string;
+  html: string;
+  text: string;
+  note?: string;
+  createdBy?: ObjectId;
+  createdAt: Date;
+}
+
+export interface IEmailTemplate extends Document {
+  _id: ObjectId;
+  key: string; // Matches a built-in template in src/templates
+  versions: IEmailTemplateVersion[]; // Never edited in place, every change adds a version
+  activeVersion?: number | null; // Unset means the built-in template is used
+  latestVersion: number;
+  updatedBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailTemplateVersionSchema = new Schema<IEmailTemplateVersion>({
+  version: {
+    type: Number,
+    required: true,
+  },
+  subject: {
+    type: String,
+    required: true,
+  },
+  html: {
+    type: String,
+    required: true,
+  },
+  text: {
+    type: String,
+    required: true,
+  },
+  note: {
+    type: String,
+    trim: true,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const EmailTemplateSchema = new Schema<IEmailTemplate>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  versions: [EmailTemplateVersionSchema],
+  activeVersion: {
+    type: Number,
+    default: null,
+  },
+  latestVersion: {
+    type: Number,
+    default: 0,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+}, {
+  timestamps: true,
+})
+
+export default model<IEmailTemplate>("EmailTemplate", EmailTemplateSchema);
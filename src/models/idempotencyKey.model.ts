@@ -0,0 +1,51 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EIdempotencyStatus {
+  PROCESSING = "Processing",
+  COMPLETED = "Completed"
+}
+
+export interface IIdempotencyKey extends Document {
+  _id: ObjectId;
+  key: string; // Scope and client supplied key, e.g. order-submit:6f1c...
+  requestHash?: string; // Hash of the payload and customer email the key was first used with
+  status: EIdempotencyStatus;
+  statusCode?: number;
+  response?: any; // JSON body sent for the original request
+  expiresAt: Date; // Mongo removes the document after this
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema = new Schema<IIdempotencyKey>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  requestHash: {
+    type: String,
+  },
+  status: {
+    type: String,
+    enum: EIdempotencyStatus,
+    default: EIdempotencyStatus.PROCESSING,
+  },
+  statusCode: {
+    type: Number,
+  },
+  response: {
+    type: Schema.Types.Mixed,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+})
+
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IIdempotencyKey>("IdempotencyKey", IdempotencyKeySchema);
@@ -0,0 +1,96 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum ELeadStatus {
+  NEW = "New",
+  CONTACTED = "Contacted",
+  CONVERTED = "Converted"
+}
+
+export interface ILead extends Document {
+  _id: ObjectId;
+  formType: string; // Key in leadConfig.forms, e.g. contact
+  name?: string;
+  email?: string;
+  phone?: string;
+  fields: Record<string, any>; // Submitted values, checked against the form's field schema
+  status: ELeadStatus;
+  routedTo: string[]; // Admin addresses notified by the routing rules
+  notificationQueued: boolean; // Accepted by the email outbox, delivery is tracked there
+  note?: string; // Internal note from the admin handling the lead
+  sourceUrl?: string; // Page the form was submitted from
+  ip?: string;
+  user?: ObjectId; // Logged in customer who submitted the form
+  contactedAt?: Date;
+  convertedAt?: Date;
+  updatedBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LeadSchema = new Schema<ILead>({
+  formType: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    trim: true,
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  phone: {
+    type: String,
+    trim: true,
+  },
+  fields: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+  status: {
+    type: String,
+    enum: ELeadStatus,
+    default: ELeadStatus.NEW,
+  },
+  routedTo: [{
+    type: String,
+  }],
+  notificationQueued: {
+    type: Boolean,
+    default: false,
+  },
+  note: {
+    type: String,
+  },
+  sourceUrl: {
+    type: String,
+  },
+  ip: {
+    type: String,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  contactedAt: {
+    type: Date,
+  },
+  convertedAt: {
+    type: Date,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+}, {
+  timestamps: true,
+})
+
+// Admin list filters by form type and status, newest first
+LeadSchema.index({ formType: 1, status: 1, createdAt: -1 });
+LeadSchema.index({ status: 1, createdAt: -1 });
+
+export default model<ILead>("Lead", LeadSchema);
@@ -0,0 +1,483 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+import { AcademicLevels } from "@/types/academicLevels";
+
+export enum EOrderStatus {
+  RECEIVED = "Received",
+  QUOTED = "Quoted",
+  PAID = "Paid",
+  IN_PROGRESS = "In_Progress",
+  DELIVERED = "Delivered",
+  CLOSED = "Closed",
+  CANCELLED = "Cancelled"
+}
+
+// Allowed status transitions - any change not listed here is rejected
+export const ORDER_STATUS_TRANSITIONS: Record<EOrderStatus, EOrderStatus[]> = {
+  [EOrderStatus.RECEIVED]: [EOrderStatus.QUOTED, EOrderStatus.CANCELLED],
+  [EOrderStatus.QUOTED]: [EOrderStatus.PAID, EOrderStatus.CANCELLED],
+  [EOrderStatus.PAID]: [EOrderStatus.IN_PROGRESS, EOrderStatus.CANCELLED],
+  [EOrderStatus.IN_PROGRESS]: [EOrderStatus.DELIVERED, EOrderStatus.CANCELLED],
+  [EOrderStatus.DELIVERED]: [EOrderStatus.CLOSED, EOrderStatus.IN_PROGRESS], // Back to In_Progress for revisions
+  [EOrderStatus.CLOSED]: [],
+  [EOrderStatus.CANCELLED]: [],
+};
+
+export const canTransitionOrderStatus = (from: EOrderStatus, to: EOrderStatus): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+export interface IOrderAttachment {
+  url: string;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: Date;
+}
+
+export enum EDeliverableKind {
+  DRAFT = "Draft",
+  FINAL = "Final"
+}
+
+export interface IOrderDeliverable {
+  _id?: ObjectId;
+  kind: EDeliverableKind;
+  version: number; // Increases with every upload on the order
+  publicId: string; // Private Cloudinary asset, only reachable through signed URLs
+  name: string;
+  size: number;
+  type: string;
+  note?: string;
+  uploadedBy: ObjectId;
+  uploadedAt: Date;
+}
+
+export enum EAssignmentStatus {
+  PENDING = "Pending",
+  ACCEPTED = "Accepted",
+  DECLINED = "Declined"
+}
+
+export interface IOrderAssignment {
+  writer: ObjectId;
+  status: EAssignmentStatus;
+  assignedBy: ObjectId;
+  assignedAt: Date;
+  respondedAt?: Date;
+  declineReason?: string;
+  progress: number; // 0-100, reported by the writer
+  progressNote?: string;
+  progressUpdatedAt?: Date;
+}
+
+export interface IOrderStatusChange {
+  status: EOrderStatus;
+  changedAt: Date;
+  changedBy?: ObjectId; // Staff member who made the change, empty for system changes
+  note?: string;
+}
+
+export interface IOrderNote {
+  _id?: ObjectId;
+  note: string;
+  author: ObjectId;
+  createdAt: Date;
+}
+
+export interface IOrderQuoteDiscount {
+  code: string;
+  type: string; // EDiscountType
+  value: number;
+  amount: number; // Amount taken off calculatedTotal
+}
+
+export interface IOrderQuote {
+  currency: string;
+  pages: number;
+  basePerPage: number;
+  hoursToDeadline?: number;
+  urgencyMultiplier: number;
+  academicLevelSurcharge: number; // Fraction of the base price
+  subjectSurcharge: number; // Fraction of the base price
+  calculatedTotal: number; // What the pricing engine produced
+  discount?: IOrderQuoteDiscount; // Discount code applied on top of calculatedTotal
+  total: number; // What the customer is charged, differs from calculatedTotal when discounted or overridden
+  overridden: boolean;
+  overriddenBy?: ObjectId;
+  overrideReason?: string;
+  calculatedAt: Date;
+}
+
+export interface IOrder extends Document {
+  _id: ObjectId;
+  orderId: string; // Public reference, e.g. ODR-XXXX-XXXX-XXXX
+  user?: ObjectId; // Customer account, set for orders placed while logged in or linked by email later
+  customer: {
+    email: string;
+    countryCode: string;
+    phoneNumber: string;
+  };
+  subjectCode: string;
+  description: string;
+  pages: number;
+  academicLevel?: string; // Should be one of AcademicLevels
+  deadline: string; // Deadline exactly as the customer entered it
+  deadlineAt?: Date; // Parsed deadline, empty if it could not be parsed
+  deadlineTimezone: string; // IANA timezone the deadline was given in
+  deadlineAlertsSent: number[]; // Hours-before-deadline alerts already sent, e.g. [48, 24]
+  overdue: boolean;
+  overdueAt?: Date;
+  acceptTerms: boolean;
+  attachments: IOrderAttachment[];
+  deliverables: IOrderDeliverable[];
+  deliveredAt?: Date;
+  quote?: IOrderQuote;
+  assignment?: IOrderAssignment;
+  amountPaid: number; // Sum of successful payments, in the quote currency
+  paidPayments: ObjectId[]; // Payments already counted in amountPaid
+  amountRefunded: number;
+  status: EOrderStatus;
+  statusHistory: IOrderStatusChange[];
+  internalNotes: IOrderNote[]; // Staff-only notes, never shown to the customer
+  trackingTokenVersion: number; // Bumped to revoke previously issued tracking links
+  submissionFingerprint?: string; // Hash of the submitted details, used to catch duplicate submissions
+  confirmationEmail?: {
+    queued: boolean; // Accepted by the email outbox, delivery is tracked there
+    queuedAt: Date;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderAttachmentSchema = new Schema<IOrderAttachment>({
+  url: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+  },
+  type: {
+    type: String,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+const OrderDeliverableSchema = new Schema<IOrderDeliverable>({
+  kind: {
+    type: String,
+    enum: EDeliverableKind,
+    required: true,
+  },
+  version: {
+    type: Number,
+    required: true,
+  },
+  publicId: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+  },
+  type: {
+    type: String,
+  },
+  note: {
+    type: String,
+  },
+  uploadedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const OrderAssignmentSchema = new Schema<IOrderAssignment>({
+  writer: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: EAssignmentStatus,
+    default: EAssignmentStatus.PENDING,
+  },
+  assignedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  assignedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  respondedAt: {
+    type: Date,
+  },
+  declineReason: {
+    type: String,
+  },
+  progress: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0,
+  },
+  progressNote: {
+    type: String,
+  },
+  progressUpdatedAt: {
+    type: Date,
+  },
+}, { _id: false });
+
+const OrderStatusChangeSchema = new Schema<IOrderStatusChange>({
+  status: {
+    type: String,
+    enum: EOrderStatus,
+    required: true,
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  note: {
+    type: String,
+  },
+}, { _id: false });
+
+const OrderNoteSchema = new Schema<IOrderNote>({
+  note: {
+    type: String,
+    required: true,
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const OrderQuoteDiscountSchema = new Schema<IOrderQuoteDiscount>({
+  code: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    required: true,
+  },
+  value: {
+    type: Number,
+    required: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+  },
+}, { _id: false });
+
+const OrderQuoteSchema = new Schema<IOrderQuote>({
+  currency: {
+    type: String,
+    required: true,
+  },
+  pages: {
+    type: Number,
+    required: true,
+  },
+  basePerPage: {
+    type: Number,
+    required: true,
+  },
+  hoursToDeadline: {
+    type: Number,
+  },
+  urgencyMultiplier: {
+    type: Number,
+    default: 1,
+  },
+  academicLevelSurcharge: {
+    type: Number,
+    default: 0,
+  },
+  subjectSurcharge: {
+    type: Number,
+    default: 0,
+  },
+  calculatedTotal: {
+    type: Number,
+    required: true,
+  },
+  discount: OrderQuoteDiscountSchema,
+  total: {
+    type: Number,
+    required: true,
+  },
+  overridden: {
+    type: Boolean,
+    default: false,
+  },
+  overriddenBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  overrideReason: {
+    type: String,
+  },
+  calculatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+const OrderSchema = new Schema<IOrder>({
+  orderId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  customer: {
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    countryCode: {
+      type: String,
+      required: true,
+    },
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+  },
+  subjectCode: {
+    type: String,
+    required: true,
+  },
+  description: {
+    type: String,
+    required: true,
+  },
+  pages: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  academicLevel: {
+    type: String,
+    enum: AcademicLevels,
+  },
+  deadline: {
+    type: String,
+    required: true,
+  },
+  deadlineAt: {
+    type: Date,
+  },
+  deadlineTimezone: {
+    type: String,
+    default: "Europe/London",
+  },
+  deadlineAlertsSent: [{
+    type: Number,
+  }],
+  overdue: {
+    type: Boolean,
+    default: false,
+  },
+  overdueAt: {
+    type: Date,
+  },
+  acceptTerms: {
+    type: Boolean,
+    required: true,
+  },
+  attachments: [OrderAttachmentSchema],
+  deliverables: [OrderDeliverableSchema],
+  deliveredAt: {
+    type: Date,
+  },
+  quote: OrderQuoteSchema,
+  assignment: OrderAssignmentSchema,
+  amountPaid: {
+    type: Number,
+    default: 0,
+  },
+  paidPayments: [{
+    type: Schema.Types.ObjectId,
+    ref: "Payment",
+  }],
+  amountRefunded: {
+    type: Number,
+    default: 0,
+  },
+  status: {
+    type: String,
+    enum: EOrderStatus,
+    default: EOrderStatus.RECEIVED,
+  },
+  statusHistory: [OrderStatusChangeSchema],
+  internalNotes: [OrderNoteSchema],
+  trackingTokenVersion: {
+    type: Number,
+    default: 1,
+  },
+  submissionFingerprint: {
+    type: String,
+  },
+  confirmationEmail: {
+    queued: {
+      type: Boolean,
+    },
+    queuedAt: {
+      type: Date,
+    },
+  },
+}, {
+  timestamps: true,
+})
+
+// Create indexes
+OrderSchema.index({ status: 1, createdAt: -1 });
+OrderSchema.index({ "customer.email": 1 });
+OrderSchema.index({ user: 1, createdAt: -1 });
+OrderSchema.index({ deadlineAt: 1 });
+OrderSchema.index({ subjectCode: 1 });
+OrderSchema.index({ "assignment.writer": 1, status: 1 });
+OrderSchema.index({ submissionFingerprint: 1, createdAt: -1 });
+OrderSchema.index({ "quote.discount.code": 1, "customer.email": 1 });
+
+export default model<IOrder>("Order", OrderSchema);
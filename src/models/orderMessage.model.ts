@@ -0,0 +1,69 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EMessageSender {
+  CUSTOMER = "Customer",
+  STAFF = "Staff"
+}
+
+export interface IOrderMessage extends Document {
+  _id: ObjectId;
+  order: ObjectId;
+  sender: EMessageSender;
+  author?: ObjectId; // Staff user, empty for customer messages
+  body: string;
+  attachments: {
+    url: string;
+    name: string;
+    size: number;
+    type: string;
+  }[];
+  readAt?: Date; // When the other party first loaded the message
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrderMessageSchema = new Schema<IOrderMessage>({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: "Order",
+    required: true,
+  },
+  sender: {
+    type: String,
+    enum: EMessageSender,
+    required: true,
+  },
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  body: {
+    type: String,
+    required: true,
+  },
+  attachments: [{
+    url: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+    },
+    size: {
+      type: Number,
+    },
+    type: {
+      type: String,
+    },
+  }],
+  readAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+})
+
+OrderMessageSchema.index({ order: 1, createdAt: 1 });
+
+export default model<IOrderMessage>("OrderMessage", OrderMessageSchema);
@@ -0,0 +1,143 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EPaymentStatus {
+  PENDING = "Pending",
+  SUCCEEDED = "Succeeded",
+  FAILED = "Failed",
+  EXPIRED = "Expired",
+  REFUNDED = "Refunded",
+  PARTIALLY_REFUNDED = "Partially_Refunded"
+}
+
+export interface IPaymentRefund {
+  providerRefundId: string;
+  amount: number;
+  reason?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+}
+
+export interface IPayment extends Document {
+  _id: ObjectId;
+  order: ObjectId;
+  provider: string; // e.g. stripe, fake
+  providerSessionId?: string;
+  providerPaymentId?: string;
+  checkoutUrl?: string;
+  amount: number; // In major units, may be less than the order total for partial payments
+  currency: string;
+  amountRefunded: number;
+  refunds: IPaymentRefund[];
+  status: EPaymentStatus;
+  paidAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaymentRefundSchema = new Schema<IPaymentRefund>({
+  providerRefundId: {
+    type: String,
+    required: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+  },
+  reason: {
+    type: String,
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const PaymentSchema = new Schema<IPayment>({
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: "Order",
+    required: true,
+    index: true,
+  },
+  provider: {
+    type: String,
+    required: true,
+  },
+  providerSessionId: {
+    type: String,
+    index: true,
+  },
+  providerPaymentId: {
+    type: String,
+  },
+  checkoutUrl: {
+    type: String,
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+  currency: {
+    type: String,
+    required: true,
+  },
+  amountRefunded: {
+    type: Number,
+    default: 0,
+  },
+  refunds: [PaymentRefundSchema],
+  status: {
+    type: String,
+    enum: EPaymentStatus,
+    default: EPaymentStatus.PENDING,
+  },
+  paidAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+})
+
+// At most one open checkout per order, so pending payments can never add up to more than the balance
+PaymentSchema.index(
+  { order: 1, status: 1 },
+  { unique: true, partialFilterExpression: { status: EPaymentStatus.PENDING } }
+);
+
+export interface IPaymentWebhookEvent extends Document {
+  _id: ObjectId;
+  provider: string;
+  eventId: string;
+  type: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One document per processed provider event, used to ignore webhook retries
+const PaymentWebhookEventSchema = new Schema<IPaymentWebhookEvent>({
+  provider: {
+    type: String,
+    required: true,
+  },
+  eventId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+  },
+}, {
+  timestamps: true,
+})
+
+PaymentWebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+export const Payment = model<IPayment>("Payment", PaymentSchema);
+export const PaymentWebhookEvent = model<IPaymentWebhookEvent>("PaymentWebhookEvent", PaymentWebhookEventSchema);
@@ -0,0 +1,30 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+// Fixed window counter, one document per key and window
+export interface IRateLimit extends Document {
+  _id: ObjectId;
+  key: string; // e.g. order-submit:ip:1.2.3.4
+  count: number;
+  expiresAt: Date; // End of the current window, Mongo removes the document after this
+}
+
+const RateLimitSchema = new Schema<IRateLimit>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+})
+
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IRateLimit>("RateLimit", RateLimitSchema);
@@ -0,0 +1,76 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum ESessionRevokedReason {
+  LOGOUT = "Logout",
+  REUSE_DETECTED = "Reuse_Detected", // A rotated refresh token was presented again
+  REVOKED = "Revoked" // Ended by the user or an admin
+}
+
+// One document per login on a device, the refresh token rotates but the session stays the same
+export interface ISession extends Document {
+  _id: ObjectId;
+  user: ObjectId;
+  refreshTokenHash: string; // SHA-256 of the current refresh token secret
+  previousTokenHash?: string; // Secret replaced by the last rotation
+  usedTokenHashes: string[]; // Recently rotated secrets, presenting one of them again is reuse
+  rotatedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date; // Pushed back on every refresh, Mongo removes the document after this
+  revokedAt?: Date;
+  revokedReason?: ESessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true,
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+  },
+  previousTokenHash: {
+    type: String,
+  },
+  usedTokenHashes: {
+    type: [String],
+    default: [],
+  },
+  rotatedAt: {
+    type: Date,
+  },
+  userAgent: {
+    type: String,
+  },
+  ip: {
+    type: String,
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  revokedReason: {
+    type: String,
+    enum: ESessionRevokedReason,
+  },
+}, {
+  timestamps: true,
+})
+
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<ISession>("Session", SessionSchema);
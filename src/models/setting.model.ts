@@ -0,0 +1,31 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+// Site wide switches super admins can change at runtime, see setting.utils for the known keys
+export interface ISetting extends Document {
+  _id: ObjectId;
+  key: string;
+  value: any;
+  updatedBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SettingSchema = new Schema<ISetting>({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  value: {
+    type: Schema.Types.Mixed,
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+}, {
+  timestamps: true,
+})
+
+export default model<ISetting>("Setting", SettingSchema);
@@ -0,0 +1,77 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+import { BlogCategories } from "@/types/blogCategories";
+import { Subjects } from "@/types/subjects";
+
+export enum ESubscriberStatus {
+  PENDING = "Pending", // Signed up, waiting for the confirmation link to be opened
+  SUBSCRIBED = "Subscribed",
+  UNSUBSCRIBED = "Unsubscribed"
+}
+
+export interface ISubscriber extends Document {
+  _id: ObjectId;
+  email: string;
+  name?: string;
+  categories: string[]; // Blog categories of interest, empty means all
+  subjects: string[]; // Sample subjects of interest, empty means all
+  status: ESubscriberStatus;
+  source?: string; // Where the signup form was, e.g. blog-footer
+  confirmationSentAt?: Date;
+  confirmedAt?: Date;
+  unsubscribedAt?: Date;
+  lastDigestAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SubscriberSchema = new Schema<ISubscriber>({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+  },
+  name: {
+    type: String,
+    trim: true,
+  },
+  categories: [{
+    type: String,
+    enum: BlogCategories,
+  }],
+  subjects: [{
+    type: String,
+    enum: Subjects,
+  }],
+  status: {
+    type: String,
+    enum: ESubscriberStatus,
+    default: ESubscriberStatus.PENDING,
+  },
+  source: {
+    type: String,
+    trim: true,
+  },
+  confirmationSentAt: {
+    type: Date,
+  },
+  confirmedAt: {
+    type: Date,
+  },
+  unsubscribedAt: {
+    type: Date,
+  },
+  lastDigestAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+})
+
+// Digest segments filter subscribed readers by their interests
+SubscriberSchema.index({ status: 1, categories: 1 });
+SubscriberSchema.index({ status: 1, subjects: 1 });
+
+export default model<ISubscriber>("Subscriber", SubscriberSchema);
@@ -1,6 +1,20 @@
 import { ObjectId, Document } from "mongodb";
 import { model, Schema } from "mongoose";
 
+export interface IRecoveryCode {
+  hash: string; // SHA-256 of the code, the code itself is only shown once
+  usedAt?: Date;
+}
+
+export interface IUserTwoFactor {
+  enabled: boolean;
+  secret?: string; // Encrypted TOTP secret
+  pendingSecret?: string; // Encrypted secret waiting for the first code during setup
+  lastUsedStep?: number; // Time step of the last accepted code, stops the same code being used twice
+  recoveryCodes: IRecoveryCode[];
+  enabledAt?: Date;
+}
+
 export interface IUser extends Document {
   _id: ObjectId;
   name: string;
@@ -9,6 +23,10 @@ export interface IUser extends Document {
   role: EUserRole;
   password: string;
   lastLogin: Date;
+  emailVerifiedAt?: Date;
+  invitedBy?: ObjectId; // Admin who created the account, the user sets a password from the invite
+  inviteAcceptedAt?: Date;
+  twoFactor: IUserTwoFactor;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +35,7 @@ export enum EUserRole {
   SUPER_ADMIN = "Super_Admin",
   USER = "User",
   ADMIN = "Admin",
+  WRITER = "Writer",
 }
 
 const UserSchema = new Schema<IUser>({
@@ -46,6 +65,46 @@ const UserSchema = new Schema<IUser>({
     type: Date,
     default: Date.now,
   },
+  emailVerifiedAt: {
+    type: Date,
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+  },
+  inviteAcceptedAt: {
+    type: Date,
+  },
+  // Secrets are left out of queries unless selected with "+twoFactor.secret" and friends
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    secret: {
+      type: String,
+      select: false,
+    },
+    pendingSecret: {
+      type: String,
+      select: false,
+    },
+    lastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    recoveryCodes: {
+      type: [{
+        hash: { type: String, required: true },
+        usedAt: { type: Date },
+      }],
+      select: false,
+      default: [],
+    },
+    enabledAt: {
+      type: Date,
+    },
+  },
 }, {
   timestamps: true,
 })
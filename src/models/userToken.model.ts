@@ -0,0 +1,46 @@
+import { ObjectId, Document } from "mongodb";
+import { model, Schema } from "mongoose";
+
+export enum EUserTokenPurpose {
+  EMAIL_VERIFICATION = "Email_Verification",
+  INVITATION = "Invitation",
+  PASSWORD_RESET = "Password_Reset",
+}
+
+// Backs an emailed link, the link is signed and this document makes it single-use
+export interface IUserToken extends Document {
+  _id: ObjectId;
+  user: ObjectId;
+  purpose: EUserTokenPurpose;
+  expiresAt: Date; // Mongo removes the document after this
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const UserTokenSchema = new Schema<IUserToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  purpose: {
+    type: String,
+    enum: EUserTokenPurpose,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  usedAt: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+})
+
+UserTokenSchema.index({ user: 1, purpose: 1 });
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IUserToken>("UserToken", UserTokenSchema);
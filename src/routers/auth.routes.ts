@@ -1,13 +1,147 @@
 import * as authController from "@/controllers/auth.controller";
+import * as twoFactorController from "@/controllers/twoFactor.controller";
+import { verifyTwoFactorChallenge } from "@/utils/twoFactor.utils";
 import { validateUserAccess } from "@/middleware/auth.middleware";
+import { rateLimit } from "@/middleware/rateLimit.middleware";
 import { Router } from "express";
 
 const authRouter = Router();
 
 authRouter.post("/login", authController.login);
+
+// POST /api/auth/login/2fa - Second login step for accounts with two-factor enabled
+authRouter.post(
+  "/login/2fa",
+  rateLimit({
+    name: "login-2fa-ip",
+    limit: parseInt(process.env.TWO_FACTOR_RATE_LIMIT_IP || "20", 10),
+    windowSeconds: 15 * 60,
+    key: (req) => req.ip,
+  }),
+  rateLimit({
+    name: "login-2fa-user",
+    limit: parseInt(process.env.TWO_FACTOR_RATE_LIMIT_USER || "5", 10),
+    windowSeconds: 15 * 60,
+    key: (req) => typeof req.body?.challengeToken === "string"
+      ? verifyTwoFactorChallenge(req.body.challengeToken) || undefined
+      : undefined,
+    message: "Too many attempts. Please wait before trying another code.",
+  }),
+  authController.verifyLoginTwoFactor
+);
 authRouter.post("/register", authController.register);
 authRouter.post("/refresh", authController.refreshToken);
 authRouter.get("/me", validateUserAccess , authController.getCurrentUser);
 authRouter.post("/logout", authController.logout);
 
+// POST /api/auth/verify-email/:token - Verify from the emailed link
+authRouter.post(
+  "/verify-email/:token",
+  rateLimit({
+    name: "verify-email-ip",
+    limit: parseInt(process.env.VERIFY_EMAIL_RATE_LIMIT_IP || "20", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+  }),
+  authController.verifyEmail
+);
+
+// POST /api/auth/resend-verification - Send a new verification link
+authRouter.post(
+  "/resend-verification",
+  rateLimit({
+    name: "resend-verification-ip",
+    limit: parseInt(process.env.RESEND_VERIFICATION_RATE_LIMIT_IP || "5", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+    message: "Too many verification requests from this network. Please try again later.",
+  }),
+  rateLimit({
+    name: "resend-verification-email",
+    limit: parseInt(process.env.RESEND_VERIFICATION_RATE_LIMIT_EMAIL || "3", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => typeof req.body?.email === "string" ? req.body.email.toLowerCase() : undefined,
+    message: "Too many verification requests for this email. Please try again later.",
+  }),
+  authController.resendVerification
+);
+
+// POST /api/auth/accept-invite/:token - Choose a password for an invited account
+authRouter.post(
+  "/accept-invite/:token",
+  rateLimit({
+    name: "accept-invite-ip",
+    limit: parseInt(process.env.ACCEPT_INVITE_RATE_LIMIT_IP || "10", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+  }),
+  authController.acceptInvite
+);
+
+// POST /api/auth/forgot-password - Email a password reset link
+authRouter.post(
+  "/forgot-password",
+  rateLimit({
+    name: "forgot-password-ip",
+    limit: parseInt(process.env.FORGOT_PASSWORD_RATE_LIMIT_IP || "5", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+    message: "Too many password reset requests from this network. Please try again later.",
+  }),
+  rateLimit({
+    name: "forgot-password-email",
+    limit: parseInt(process.env.FORGOT_PASSWORD_RATE_LIMIT_EMAIL || "3", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => typeof req.body?.email === "string" ? req.body.email.toLowerCase() : undefined,
+    message: "Too many password reset requests for this email. Please try again later.",
+  }),
+  authController.forgotPassword
+);
+
+// POST /api/auth/reset-password - Choose a new password with the emailed token
+authRouter.post(
+  "/reset-password",
+  rateLimit({
+    name: "reset-password-ip",
+    limit: parseInt(process.env.RESET_PASSWORD_RATE_LIMIT_IP || "10", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+  }),
+  authController.resetPassword
+);
+
+// POST /api/auth/change-password - Change the password while logged in
+authRouter.post(
+  "/change-password",
+  validateUserAccess,
+  rateLimit({
+    name: "change-password-user",
+    limit: parseInt(process.env.CHANGE_PASSWORD_RATE_LIMIT_USER || "5", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.user?._id?.toString(),
+  }),
+  authController.changePassword
+);
+
+// Two-factor authentication of the logged in user
+authRouter.get("/2fa", validateUserAccess, twoFactorController.getTwoFactorStatus);
+authRouter.post("/2fa/setup", validateUserAccess, twoFactorController.setupTwoFactor);
+
+const twoFactorCodeLimit = rateLimit({
+  name: "2fa-code-user",
+  limit: parseInt(process.env.TWO_FACTOR_RATE_LIMIT_USER || "5", 10),
+  windowSeconds: 15 * 60,
+  key: (req) => req.user?._id?.toString(),
+  message: "Too many attempts. Please wait before trying another code.",
+});
+
+authRouter.post("/2fa/enable", validateUserAccess, twoFactorCodeLimit, twoFactorController.enableTwoFactor);
+authRouter.post("/2fa/disable", validateUserAccess, twoFactorCodeLimit, twoFactorController.disableTwoFactor);
+authRouter.post("/2fa/recovery-codes", validateUserAccess, twoFactorCodeLimit, twoFactorController.regenerateRecoveryCodes);
+
+// Active sessions of the logged in user
+authRouter.get("/sessions", validateUserAccess, authController.getSessions);
+authRouter.delete("/sessions", validateUserAccess, authController.revokeAllSessions);
+authRouter.delete("/sessions/:id", validateUserAccess, authController.revokeSessionById);
+
 export default authRouter; 
\ No newline at end of file
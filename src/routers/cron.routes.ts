@@ -0,0 +1,16 @@
+import { Router } from "express";
+import { runDeadlineCron, runEmailOutboxCron } from "@/controllers/cron.controller";
+import { validateCronSecret } from "@/middleware/cron.middleware";
+
+const cronRouter = Router();
+
+// All cron routes require the cron secret
+cronRouter.use(validateCronSecret);
+
+// GET /api/cron/deadlines - Deadline alerts and overdue flags
+cronRouter.get("/deadlines", runDeadlineCron);
+
+// GET /api/cron/emails - Send due and retrying emails from the outbox
+cronRouter.get("/emails", runEmailOutboxCron);
+
+export default cronRouter;
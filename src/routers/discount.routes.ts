@@ -0,0 +1,46 @@
+import { Router } from "express";
+import * as DiscountController from "@/controllers/discount.controller";
+import { validateQuoteRequest } from "@/controllers/order.controller";
+import { validateAdminAccess } from "@/middleware/auth.middleware";
+import { rateLimit } from "@/middleware/rateLimit.middleware";
+import { validateDiscountCode, validateDiscountCheck } from "@/middleware/discount.middleware";
+
+const discountRouter = Router();
+
+// POST /api/discounts/validate - Check a code against a quote before submitting an order
+// Limited per IP so codes can not be guessed by trying them one after another
+discountRouter.post(
+  "/validate",
+  rateLimit({
+    name: "discount-validate-ip",
+    limit: parseInt(process.env.DISCOUNT_RATE_LIMIT_IP || "20", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+    message: "Too many discount code checks. Please try again later.",
+  }),
+  validateDiscountCheck,
+  validateQuoteRequest,
+  DiscountController.validateDiscountForQuote
+);
+
+// Admin only routes
+discountRouter.get("/admin/all", validateAdminAccess, DiscountController.getAllDiscountCodes);
+discountRouter.get("/admin/:id", validateAdminAccess, DiscountController.getDiscountCodeById);
+
+discountRouter.post(
+  "/admin",
+  validateAdminAccess,
+  validateDiscountCode,
+  DiscountController.createDiscountCode
+);
+
+discountRouter.put(
+  "/admin/:id",
+  validateAdminAccess,
+  validateDiscountCode,
+  DiscountController.updateDiscountCode
+);
+
+discountRouter.delete("/admin/:id", validateAdminAccess, DiscountController.deleteDiscountCode);
+
+export default discountRouter;
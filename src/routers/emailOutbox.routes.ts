@@ -0,0 +1,14 @@
+import { Router } from "express";
+import * as EmailOutboxController from "@/controllers/emailOutbox.controller";
+import { validateAdminAccess } from "@/middleware/auth.middleware";
+
+const emailOutboxRouter = Router();
+
+// Admin only routes
+emailOutboxRouter.get("/", validateAdminAccess, EmailOutboxController.getOutboxEmails);
+emailOutboxRouter.get("/:id", validateAdminAccess, EmailOutboxController.getOutboxEmailById);
+
+// POST /api/email-outbox/:id/resend - Resend a failed email
+emailOutboxRouter.post("/:id/resend", validateAdminAccess, EmailOutboxController.resendFailedEmail);
+
+export default emailOutboxRouter;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import * as EmailTemplateController from "@/controllers/emailTemplate.controller";
+import { validateAdminAccess } from "@/middleware/auth.middleware";
+import {
+  validateEmailTemplateVersion,
+  validateActiveVersion,
+  validateEmailTemplatePreview,
+} from "@/middleware/emailTemplate.middleware";
+
+const emailTemplateRouter = Router();
+
+// Admin only routes
+emailTemplateRouter.get("/", validateAdminAccess, EmailTemplateController.getAllEmailTemplates);
+emailTemplateRouter.get("/:key", validateAdminAccess, EmailTemplateController.getEmailTemplateByKey);
+
+// POST /api/email-templates/:key/versions - Save a new version
+emailTemplateRouter.post(
+  "/:key/versions",
+  validateAdminAccess,
+  validateEmailTemplateVersion,
+  EmailTemplateController.createEmailTemplateVersion
+);
+
+// PUT /api/email-templates/:key/active - Choose the version that is sent
+emailTemplateRouter.put(
+  "/:key/active",
+  validateAdminAccess,
+  validateActiveVersion,
+  EmailTemplateController.setActiveEmailTemplateVersion
+);
+
+// POST /api/email-templates/:key/preview - Render with sample data
+emailTemplateRouter.post(
+  "/:key/preview",
+  validateAdminAccess,
+  validateEmailTemplatePreview,
+  EmailTemplateController.previewEmailTemplate
+);
+
+export default emailTemplateRouter;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import * as LeadController from "@/controllers/lead.controller";
+import { attachUserIfAuthenticated, validateAdminAccess } from "@/middleware/auth.middleware";
+import { rateLimit } from "@/middleware/rateLimit.middleware";
+import { rejectHoneypot, verifyCaptcha } from "@/middleware/orderProtection.middleware";
+import { validateLeadStatus } from "@/middleware/lead.middleware";
+
+const leadRouter = Router();
+
+// GET /api/leads/forms - Form types and their fields
+leadRouter.get("/forms", LeadController.getLeadForms);
+
+// Admin only routes
+leadRouter.get("/admin/all", validateAdminAccess, LeadController.getAllLeads);
+leadRouter.get("/admin/:id", validateAdminAccess, LeadController.getLeadById);
+
+leadRouter.patch(
+  "/admin/:id/status",
+  validateAdminAccess,
+  validateLeadStatus,
+  LeadController.updateLeadStatus
+);
+
+// POST /api/leads/:formType - Submit a lead form, e.g. /api/leads/contact
+leadRouter.post(
+  "/:formType",
+  rejectHoneypot,
+  rateLimit({
+    name: "lead-ip",
+    limit: parseInt(process.env.LEAD_RATE_LIMIT_IP || "5", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+    message: "Too many submissions from this network. Please try again later.",
+  }),
+  verifyCaptcha,
+  attachUserIfAuthenticated,
+  LeadController.submitLead
+);
+
+export default leadRouter;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import * as SubscriberController from "@/controllers/subscriber.controller";
+import { validateAdminAccess } from "@/middleware/auth.middleware";
+import { rateLimit } from "@/middleware/rateLimit.middleware";
+import { validateSubscription, validateDigest } from "@/middleware/subscriber.middleware";
+
+const newsletterRouter = Router();
+
+// POST /api/newsletter/subscribe - Sign up, a confirmation email is sent
+newsletterRouter.post(
+  "/subscribe",
+  rateLimit({
+    name: "newsletter-ip",
+    limit: parseInt(process.env.NEWSLETTER_RATE_LIMIT_IP || "5", 10),
+    windowSeconds: 60 * 60,
+    key: (req) => req.ip,
+    message: "Too many signups from this network. Please try again later.",
+  }),
+  validateSubscription,
+  SubscriberController.subscribe
+);
+
+// POST /api/newsletter/confirm/:token - Confirm from the emailed link
+newsletterRouter.post("/confirm/:token", SubscriberController.confirmSubscription);
+
+// POST /api/newsletter/unsubscribe/:token - Unsubscribe page and one-click unsubscribe
+newsletterRouter.post("/unsubscribe/:token", SubscriberController.unsubscribe);
+
+// Admin only routes
+newsletterRouter.get("/admin/subscribers", validateAdminAccess, SubscriberController.getAllSubscribers);
+newsletterRouter.delete("/admin/subscribers/:id", validateAdminAccess, SubscriberController.deleteSubscriber);
+
+newsletterRouter.post(
+  "/admin/digest",
+  validateAdminAccess,
+  validateDigest,
+  SubscriberController.sendNewsletterDigest
+);
+
+export default newsletterRouter;
@@ -1,23 +1,82 @@
 import { Router } from 'express';
 import { 
   submitOrder, 
-//   getOrderStatus, 
+  getOrderStatus, 
   testEmailService,
-  validateOrderSubmission 
+  validateOrderSubmission,
+  validateOrderUpdate,
+  getAllOrdersForAdmin,
+  getOrderByIdForAdmin,
+  updateOrder,
+  addOrderNote,
+  changeOrderStatus,
+  getQuote,
+  validateQuoteRequest,
+  updateOrderQuote,
+  resendTrackingLink,
+  getMyOrders,
 } from '@/controllers/order.controller';
+import { getOrderMessagesForAdmin, postStaffMessage } from '@/controllers/orderMessage.controller';
+import { uploadDeliverable, deliverOrder, getDeliverableDownloadForAdmin } from '@/controllers/deliverable.controller';
+import { assignOrderToWriter, getWriterWorkload } from '@/controllers/writer.controller';
+import { exportOrders } from '@/controllers/orderExport.controller';
 import { upload } from '@/utils/cloudinary.utils';
+import { validateAdminAccess, validateUserAccess, attachUserIfAuthenticated } from '@/middleware/auth.middleware';
+import {
+  ORDER_PROTECTION_FIELDS,
+  limitOrderSubmissionsByIp,
+  protectOrderSubmission,
+} from '@/middleware/orderProtection.middleware';
+import { idempotentRequest } from '@/middleware/idempotency.middleware';
 
 const orderRouter = Router();
 
 // POST /api/order/submit - Submit a new order
+// Files are held in memory until the spam checks and validation pass, then stored by submitOrder
+// Retries with the same Idempotency-Key header get the original response back
 orderRouter.post('/submit', 
-  upload.client.array('attachments', 5), // Allow up to 5 file attachments
+  limitOrderSubmissionsByIp,
+  upload.client.buffered('attachments', 5), // Allow up to 5 file attachments
+  idempotentRequest('order-submit', { ignoreFields: ORDER_PROTECTION_FIELDS }), // After the parser so the key is tied to the submitted fields
   validateOrderSubmission, 
+  protectOrderSubmission,
+  attachUserIfAuthenticated, // Orders placed while logged in belong to the account
   submitOrder
 );
 
+// POST /api/order/quote - Get a price quote before submitting
+orderRouter.post('/quote', validateQuoteRequest, getQuote);
+
+// GET /api/order/mine - Order history of the logged in customer
+orderRouter.get('/mine', validateUserAccess, getMyOrders);
+
 // GET /api/order/status/:orderId - Get order status
-// orderRouter.get('/status/:orderId', getOrderStatus);
+orderRouter.get('/status/:orderId', getOrderStatus);
+
+// Admin only routes
+orderRouter.get('/admin/all', validateAdminAccess, getAllOrdersForAdmin);
+orderRouter.get('/admin/workload', validateAdminAccess, getWriterWorkload);
+orderRouter.get('/admin/export', validateAdminAccess, exportOrders);
+orderRouter.get('/admin/:id', validateAdminAccess, getOrderByIdForAdmin);
+orderRouter.put('/admin/:id', validateAdminAccess, validateOrderUpdate, updateOrder);
+orderRouter.put('/admin/:id/quote', validateAdminAccess, updateOrderQuote);
+orderRouter.put('/admin/:id/assign', validateAdminAccess, assignOrderToWriter);
+orderRouter.post('/admin/:id/tracking-link', validateAdminAccess, resendTrackingLink);
+orderRouter.post('/admin/:id/notes', validateAdminAccess, addOrderNote);
+orderRouter.patch('/admin/:id/status', validateAdminAccess, changeOrderStatus);
+orderRouter.get('/admin/:id/messages', validateAdminAccess, getOrderMessagesForAdmin);
+orderRouter.post('/admin/:id/messages',
+  validateAdminAccess,
+  upload.client.array('attachments', 5),
+  postStaffMessage
+);
+orderRouter.post('/admin/:id/deliverables',
+  validateAdminAccess,
+  upload.deliverable.single('file'),
+  uploadDeliverable
+);
+orderRouter.get('/admin/:id/deliverables/:deliverableId/download', validateAdminAccess, getDeliverableDownloadForAdmin);
+orderRouter.post('/admin/:id/deliver', validateAdminAccess, deliverOrder);
 
 // POST /api/order/test-email - Test email service (development only)
 if (process.env.NODE_ENV === 'development') {
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import {
+  handlePaymentWebhook,
+  completeFakePayment,
+  getOrderPayments,
+  refundPayment,
+} from '@/controllers/payment.controller';
+import { validateAdminAccess } from '@/middleware/auth.middleware';
+
+const paymentRouter = Router();
+
+// Customers start checkout from their tracking link: POST /api/track/:token/checkout
+
+// POST /api/payments/webhook/:provider - Signed provider webhooks
+paymentRouter.post('/webhook/:provider', handlePaymentWebhook);
+
+// Admin only routes
+paymentRouter.get('/admin/order/:id', validateAdminAccess, getOrderPayments);
+paymentRouter.post('/admin/:paymentId/refund', validateAdminAccess, refundPayment);
+
+// POST /api/payments/fake/:sessionId/complete - Simulate the fake provider webhook (development only)
+if (process.env.NODE_ENV === 'development') {
+  paymentRouter.post('/fake/:sessionId/complete', completeFakePayment);
+}
+
+export default paymentRouter;
@@ -0,0 +1,16 @@
+import { Router } from "express";
+import * as SettingController from "@/controllers/setting.controller";
+import { validateSuperAdminAccess } from "@/middleware/auth.middleware";
+
+const settingRouter = Router();
+
+// All settings routes require super admin access
+settingRouter.use(validateSuperAdminAccess);
+
+// GET /api/settings - Current value of every setting
+settingRouter.get("/", SettingController.getSettings);
+
+// PUT /api/settings/:key - Change a setting, e.g. /api/settings/autoApproveInvitedUsers
+settingRouter.put("/:key", SettingController.updateSetting);
+
+export default settingRouter;
@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { getTrackedOrder, uploadTrackedOrderFiles } from '@/controllers/tracking.controller';
+import { createCheckoutSession } from '@/controllers/payment.controller';
+import { getCustomerMessages, postCustomerMessage } from '@/controllers/orderMessage.controller';
+import { getCustomerDeliverables, getCustomerDeliverableDownload } from '@/controllers/deliverable.controller';
+import { validateTrackingToken } from '@/middleware/tracking.middleware';
+import { upload } from '@/utils/cloudinary.utils';
+
+const trackingRouter = Router();
+
+// GET /api/track/:token - Order status, quote and files for the customer
+trackingRouter.get('/:token', validateTrackingToken, getTrackedOrder);
+
+// POST /api/track/:token/files - Upload additional files
+trackingRouter.post('/:token/files',
+  validateTrackingToken,
+  upload.client.array('attachments', 5), // Allow up to 5 file attachments
+  uploadTrackedOrderFiles
+);
+
+// GET/POST /api/track/:token/messages - Message thread with our team
+trackingRouter.get('/:token/messages', validateTrackingToken, getCustomerMessages);
+trackingRouter.post('/:token/messages',
+  validateTrackingToken,
+  upload.client.array('attachments', 5),
+  postCustomerMessage
+);
+
+// GET /api/track/:token/deliverables - Completed work, downloaded through signed expiring URLs
+trackingRouter.get('/:token/deliverables', validateTrackingToken, getCustomerDeliverables);
+trackingRouter.get('/:token/deliverables/:deliverableId/download', validateTrackingToken, getCustomerDeliverableDownload);
+
+// POST /api/track/:token/checkout - Pay for a quoted order
+trackingRouter.post('/:token/checkout', validateTrackingToken, createCheckoutSession);
+
+export default trackingRouter;
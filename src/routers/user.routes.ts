@@ -4,6 +4,11 @@ import {
   verifyUser,
   changeUserRole,
   getUserById,
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+  inviteUser,
+  resetUserTwoFactor,
 } from "@/controllers/user.controller";
 import { validateSuperAdminAccess } from "@/middleware/auth.middleware";
 
@@ -15,6 +20,9 @@ userRouter.use(validateSuperAdminAccess);
 // Get all users with pagination and filtering
 userRouter.get("/", getAllUsers);
 
+// Invite a user by email, they choose a password from the emailed link
+userRouter.post("/invite", inviteUser);
+
 // Get specific user by ID
 userRouter.get("/:id", getUserById);
 
@@ -24,4 +32,16 @@ userRouter.put("/:id/verify", verifyUser);
 // Change user role
 userRouter.put("/:id/role", changeUserRole);
 
+// Turn off two-factor for a user who lost their authenticator
+userRouter.delete("/:id/2fa", resetUserTwoFactor);
+
+// Active sessions of a user
+userRouter.get("/:id/sessions", getUserSessions);
+
+// Revoke every session of a user
+userRouter.delete("/:id/sessions", revokeAllUserSessions);
+
+// Revoke a single session
+userRouter.delete("/:id/sessions/:sessionId", revokeUserSession);
+
 export default userRouter;
\ No newline at end of file
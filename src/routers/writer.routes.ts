@@ -0,0 +1,27 @@
+import { Router } from "express";
+import {
+  getAssignedOrders,
+  getAssignedOrderById,
+  acceptAssignment,
+  declineAssignment,
+  updateAssignmentProgress,
+} from "@/controllers/writer.controller";
+import { validateWriterAccess } from "@/middleware/auth.middleware";
+
+const writerRouter = Router();
+
+// All writer routes require the writer role
+writerRouter.use(validateWriterAccess);
+
+// Orders assigned to the logged in writer
+writerRouter.get("/orders", getAssignedOrders);
+writerRouter.get("/orders/:id", getAssignedOrderById);
+
+// Respond to an assignment
+writerRouter.post("/orders/:id/accept", acceptAssignment);
+writerRouter.post("/orders/:id/decline", declineAssignment);
+
+// Report progress
+writerRouter.patch("/orders/:id/progress", updateAssignmentProgress);
+
+export default writerRouter;
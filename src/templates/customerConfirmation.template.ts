@@ -0,0 +1,91 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder, sampleTrackingUrl } from '@/templates/sampleData';
+
+export const customerConfirmationTemplate: EmailTemplateDefinition = {
+  key: 'customer-confirmation',
+  description: 'Sent to the customer after submitting the order form, includes the tracking link',
+  sampleData: {
+    order: sampleOrder,
+    trackingUrl: sampleTrackingUrl,
+  },
+  subject: 'Order Confirmation {{order.orderId}} - {{brand.name}}',
+  html: `
+    <h2>Order Confirmation - {{brand.name}}</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Dear Student,</p>
+
+      <p>Thank you for choosing {{brand.name}}! We have successfully received your order and our expert writers are ready to work on your assignment.</p>
+
+      <h3>Your Order Summary:</h3>
+      <table style="border-collapse: collapse; width: 100%;">
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Order ID:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.orderId}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.subjectCode}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.deadline}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.pages}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Estimated Quote:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{#if order.quote}}{{order.quote}}{{else}}To be confirmed{{/if}}</td>
+        </tr>
+      </table>
+
+      <p style="margin: 20px 0;">
+        <a href="{{trackingUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Track my order
+        </a>
+      </p>
+      <p style="color: #666666; font-size: 12px;">Please do not share this link. Anyone with the link can view your order.</p>
+
+      <h3>What Happens Next?</h3>
+      <ul>
+        <li>Our team will review your requirements within 1 hour</li>
+        <li>You'll receive a quote and payment details</li>
+        <li>Once payment is confirmed, our expert writers will start working</li>
+        <li>You'll receive regular updates on your assignment progress</li>
+      </ul>
+
+      <p><strong>Need immediate assistance?</strong> Contact us on WhatsApp: {{brand.supportWhatsApp}} or email {{brand.supportEmail}}</p>
+
+      <p>Best regards,<br/>
+      {{brand.name}} Team</p>
+    </div>
+  `,
+  text: `
+Order Confirmation - {{brand.name}}
+
+Dear Student,
+
+Thank you for choosing {{brand.name}}! We have successfully received your order and our expert writers are ready to work on your assignment.
+
+Order ID: {{order.orderId}}
+Subject/Course: {{order.subjectCode}}
+Deadline: {{order.deadline}}
+Pages: {{order.pages}}
+Estimated Quote: {{#if order.quote}}{{order.quote}}{{else}}To be confirmed{{/if}}
+
+Track your order: {{trackingUrl}}
+Please do not share this link. Anyone with the link can view your order.
+
+What happens next?
+- Our team will review your requirements within 1 hour
+- You'll receive a quote and payment details
+- Once payment is confirmed, our expert writers will start working
+- You'll receive regular updates on your assignment progress
+
+Need immediate assistance? Contact us on WhatsApp: {{brand.supportWhatsApp}} or email {{brand.supportEmail}}
+
+Best regards,
+{{brand.name}} Team
+  `,
+};
@@ -0,0 +1,51 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder } from '@/templates/sampleData';
+
+export const customerMessageNotificationTemplate: EmailTemplateDefinition = {
+  key: 'customer-message-notification',
+  description: 'Sent to the admin team when a customer posts a message on an order',
+  sampleData: {
+    order: sampleOrder,
+    message: {
+      body: 'Could you also include a short conclusion?',
+      attachments: sampleOrder.attachments,
+    },
+    receivedAt: '01/06/2025, 14:00:00',
+  },
+  subject: 'New message on order {{order.orderId}}',
+  html: `
+    <h2>New Customer Message - {{order.orderId}}</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p><strong>From:</strong> {{order.email}}</p>
+      <p><strong>Subject/Course Code:</strong> {{order.subjectCode}}</p>
+
+      <div style="border-left: 4px solid #0066cc; padding: 8px 16px; background-color: #f7f7f7; white-space: pre-wrap;">{{message.body}}</div>
+
+      {{#if message.attachments}}
+      <h3>Attached Files:</h3>
+      {{#each message.attachments}}
+      <div style="margin-bottom: 8px;">
+        <a href="{{url}}" target="_blank" style="color: #0066cc; text-decoration: none;">
+          {{name}} ({{size}})
+        </a>
+      </div>
+      {{/each}}
+      {{/if}}
+
+      <p style="margin-top: 20px;"><strong>Received on:</strong> {{receivedAt}}</p>
+    </div>
+  `,
+  text: `
+New Customer Message - {{order.orderId}}
+
+From: {{order.email}}
+Subject/Course Code: {{order.subjectCode}}
+
+{{message.body}}
+{{#if message.attachments}}
+Attached Files:
+{{#each message.attachments}}- {{name}} ({{size}}): {{url}}
+{{/each}}{{/if}}
+Received on: {{receivedAt}}
+  `,
+};
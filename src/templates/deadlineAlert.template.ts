@@ -0,0 +1,49 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder } from '@/templates/sampleData';
+
+export const deadlineAlertTemplate: EmailTemplateDefinition = {
+  key: 'deadline-alert',
+  description: 'Sent to admins and the assigned writer before a deadline and once it has passed',
+  sampleData: {
+    order: sampleOrder,
+    overdue: false,
+    hoursLeft: 24,
+    deadline: '08/06/2025, 23:59:00',
+    timezone: 'Europe/London',
+  },
+  subject: '{{#if overdue}}Overdue: order {{order.orderId}}{{else}}Deadline in {{hoursLeft}}h: order {{order.orderId}}{{/if}}',
+  html: `
+    <h2>{{#if overdue}}Order Overdue{{else}}Deadline Approaching{{/if}} - {{order.orderId}}</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      {{#if overdue}}
+      <p>The deadline for order <strong>{{order.orderId}}</strong> has passed and it has not been delivered.</p>
+      {{else}}
+      <p>Order <strong>{{order.orderId}}</strong> is due in less than <strong>{{hoursLeft}} hours</strong>.</p>
+      {{/if}}
+
+      <table style="border-collapse: collapse; width: 100%;">
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course Code:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.subjectCode}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.pages}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{deadline}} ({{timezone}})</td>
+        </tr>
+      </table>
+    </div>
+  `,
+  text: `
+{{#if overdue}}Order Overdue{{else}}Deadline Approaching{{/if}} - {{order.orderId}}
+
+{{#if overdue}}The deadline for order {{order.orderId}} has passed and it has not been delivered.{{else}}Order {{order.orderId}} is due in less than {{hoursLeft}} hours.{{/if}}
+
+Subject/Course Code: {{order.subjectCode}}
+Pages: {{order.pages}}
+Deadline: {{deadline}} ({{timezone}})
+  `,
+};
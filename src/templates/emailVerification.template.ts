@@ -0,0 +1,44 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const emailVerificationTemplate: EmailTemplateDefinition = {
+  key: 'email-verification',
+  description: 'Sent after registering, the account can log in once the link is opened',
+  superAdminOnly: true,
+  sampleData: {
+    user: { name: 'Sam' },
+    verifyUrl: 'https://example.com/verify-email/sample-token',
+    expiresInHours: 24,
+  },
+  subject: 'Verify your email address for {{brand.name}}',
+  html: `
+    <h2>Verify Your Email Address</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Hi {{user.name}},</p>
+
+      <p>Thanks for creating an account with {{brand.name}}. Please verify your email address to finish setting it up.</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{verifyUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Verify email address
+        </a>
+      </p>
+
+      <p>This link expires in {{expiresInHours}} hours and can only be used once.</p>
+
+      <p style="color: #666666; font-size: 12px;">If you did not create an account, you can ignore this email.</p>
+    </div>
+  `,
+  text: `
+Verify Your Email Address
+
+Hi {{user.name}},
+
+Thanks for creating an account with {{brand.name}}. Please verify your email address to finish setting it up:
+
+{{verifyUrl}}
+
+This link expires in {{expiresInHours}} hours and can only be used once.
+
+If you did not create an account, you can ignore this email.
+  `,
+};
@@ -0,0 +1,35 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { orderNotificationTemplate } from '@/templates/orderNotification.template';
+import { customerConfirmationTemplate } from '@/templates/customerConfirmation.template';
+import { trackingLinkTemplate } from '@/templates/trackingLink.template';
+import { customerMessageNotificationTemplate } from '@/templates/customerMessageNotification.template';
+import { staffMessageNotificationTemplate } from '@/templates/staffMessageNotification.template';
+import { orderDeliveredTemplate } from '@/templates/orderDelivered.template';
+import { writerAssignmentTemplate } from '@/templates/writerAssignment.template';
+import { deadlineAlertTemplate } from '@/templates/deadlineAlert.template';
+import { newsletterConfirmationTemplate } from '@/templates/newsletterConfirmation.template';
+import { newsletterDigestTemplate } from '@/templates/newsletterDigest.template';
+import { leadNotificationTemplate } from '@/templates/leadNotification.template';
+import { emailVerificationTemplate } from '@/templates/emailVerification.template';
+import { userInvitationTemplate } from '@/templates/userInvitation.template';
+import { passwordResetTemplate } from '@/templates/passwordReset.template';
+
+// Built-in email templates by key, admins can save new versions of any of them
+export const defaultEmailTemplates: Record<string, EmailTemplateDefinition> = Object.fromEntries(
+  [
+    orderNotificationTemplate,
+    customerConfirmationTemplate,
+    trackingLinkTemplate,
+    customerMessageNotificationTemplate,
+    staffMessageNotificationTemplate,
+    orderDeliveredTemplate,
+    writerAssignmentTemplate,
+    deadlineAlertTemplate,
+    newsletterConfirmationTemplate,
+    newsletterDigestTemplate,
+    leadNotificationTemplate,
+    emailVerificationTemplate,
+    userInvitationTemplate,
+    passwordResetTemplate,
+  ].map(template => [template.key, template])
+);
@@ -0,0 +1,43 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const leadNotificationTemplate: EmailTemplateDefinition = {
+  key: 'lead-notification',
+  description: 'Sent to the admins chosen by the lead routing rules when a contact form is submitted',
+  sampleData: {
+    form: { type: 'contact', name: 'Contact us' },
+    fields: [
+      { label: 'Name', value: 'Sam Student' },
+      { label: 'Email', value: 'student@example.com' },
+      { label: 'Message', value: 'Do you help with lab reports?' },
+    ],
+    sourceUrl: 'https://example.com/contact',
+    submittedAt: '01/06/2025, 14:00:00',
+  },
+  subject: 'New {{form.name}} submission',
+  html: `
+    <h2>New {{form.name}} Submission</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <table style="border-collapse: collapse; width: 100%;">
+        {{#each fields}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>{{label}}:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px; white-space: pre-wrap;">{{value}}</td>
+        </tr>
+        {{/each}}
+      </table>
+
+      {{#if sourceUrl}}
+      <p style="margin-top: 20px;"><strong>Submitted from:</strong> {{sourceUrl}}</p>
+      {{/if}}
+      <p><strong>Submitted on:</strong> {{submittedAt}}</p>
+    </div>
+  `,
+  text: `
+New {{form.name}} Submission
+
+{{#each fields}}{{label}}: {{value}}
+{{/each}}
+{{#if sourceUrl}}Submitted from: {{sourceUrl}}
+{{/if}}Submitted on: {{submittedAt}}
+  `,
+};
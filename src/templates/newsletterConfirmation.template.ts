@@ -0,0 +1,38 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const newsletterConfirmationTemplate: EmailTemplateDefinition = {
+  key: 'newsletter-confirmation',
+  description: 'Sent after signing up to the newsletter, the subscription starts once the link is opened',
+  sampleData: {
+    subscriber: { name: 'Sam' },
+    confirmUrl: 'https://example.com/newsletter/confirm/sample-token',
+  },
+  subject: 'Please confirm your subscription to {{brand.name}}',
+  html: `
+    <h2>Confirm Your Subscription</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>{{#if subscriber.name}}Hi {{subscriber.name}},{{else}}Hi,{{/if}}</p>
+
+      <p>Thanks for signing up to the {{brand.name}} newsletter. Please confirm your email address to start receiving our latest articles.</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{confirmUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Confirm subscription
+        </a>
+      </p>
+
+      <p style="color: #666666; font-size: 12px;">If you did not sign up, you can ignore this email and you will not be subscribed.</p>
+    </div>
+  `,
+  text: `
+Confirm Your Subscription
+
+{{#if subscriber.name}}Hi {{subscriber.name}},{{else}}Hi,{{/if}}
+
+Thanks for signing up to the {{brand.name}} newsletter. Please confirm your email address to start receiving our latest articles:
+
+{{confirmUrl}}
+
+If you did not sign up, you can ignore this email and you will not be subscribed.
+  `,
+};
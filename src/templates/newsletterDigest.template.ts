@@ -0,0 +1,56 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const newsletterDigestTemplate: EmailTemplateDefinition = {
+  key: 'newsletter-digest',
+  description: 'Digest of newly published blogs sent to newsletter subscribers',
+  sampleData: {
+    subscriber: { name: 'Sam' },
+    blogs: [
+      {
+        title: 'How to structure a dissertation',
+        description: 'A chapter by chapter guide to planning your dissertation.',
+        category: 'Construction Guides & FAQs',
+        url: 'https://example.com/blogs/how-to-structure-a-dissertation',
+      },
+    ],
+    unsubscribeUrl: 'https://example.com/newsletter/unsubscribe/sample-token',
+  },
+  subject: 'New from {{brand.name}}: {{blogs.0.title}}',
+  html: `
+    <h2>Latest from {{brand.name}}</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>{{#if subscriber.name}}Hi {{subscriber.name}},{{else}}Hi,{{/if}}</p>
+
+      <p>Here is what we have published recently:</p>
+
+      {{#each blogs}}
+      <div style="border-bottom: 1px solid #ddd; padding: 12px 0;">
+        <p style="margin: 0; color: #666666; font-size: 12px;">{{category}}</p>
+        <h3 style="margin: 4px 0;">
+          <a href="{{url}}" target="_blank" style="color: #0066cc; text-decoration: none;">{{title}}</a>
+        </h3>
+        <p style="margin: 0;">{{description}}</p>
+      </div>
+      {{/each}}
+
+      <p style="color: #666666; font-size: 12px; margin-top: 20px;">
+        You are receiving this because you subscribed to the {{brand.name}} newsletter.
+        <a href="{{unsubscribeUrl}}" target="_blank" style="color: #666666;">Unsubscribe</a>
+      </p>
+    </div>
+  `,
+  text: `
+Latest from {{brand.name}}
+
+{{#if subscriber.name}}Hi {{subscriber.name}},{{else}}Hi,{{/if}}
+
+Here is what we have published recently:
+{{#each blogs}}
+{{title}} ({{category}})
+{{description}}
+{{url}}
+{{/each}}
+You are receiving this because you subscribed to the {{brand.name}} newsletter.
+Unsubscribe: {{unsubscribeUrl}}
+  `,
+};
@@ -0,0 +1,43 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder, sampleTrackingUrl } from '@/templates/sampleData';
+
+export const orderDeliveredTemplate: EmailTemplateDefinition = {
+  key: 'order-delivered',
+  description: 'Sent to the customer when their completed work is delivered',
+  sampleData: {
+    order: sampleOrder,
+    trackingUrl: sampleTrackingUrl,
+  },
+  subject: 'Your order {{order.orderId}} has been delivered',
+  html: `
+    <h2>Your Order Has Been Delivered</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Dear Student,</p>
+
+      <p>Good news! The completed work for your order <strong>{{order.orderId}}</strong> ({{order.subjectCode}}) is ready.</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{trackingUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Download your files
+        </a>
+      </p>
+
+      <p>Download links are generated on demand and expire shortly after, so always use your tracking page to get a fresh link.</p>
+
+      <p>If anything needs changing, reply through the messages on your tracking page.</p>
+    </div>
+  `,
+  text: `
+Your Order Has Been Delivered
+
+Dear Student,
+
+Good news! The completed work for your order {{order.orderId}} ({{order.subjectCode}}) is ready.
+
+Download your files: {{trackingUrl}}
+
+Download links are generated on demand and expire shortly after, so always use your tracking page to get a fresh link.
+
+If anything needs changing, reply through the messages on your tracking page.
+  `,
+};
@@ -0,0 +1,103 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder } from '@/templates/sampleData';
+
+export const orderNotificationTemplate: EmailTemplateDefinition = {
+  key: 'order-notification',
+  description: 'Sent to the admin team when a new order is submitted',
+  sampleData: {
+    order: sampleOrder,
+    submittedAt: '01/06/2025, 14:00:00',
+  },
+  subject: 'New Assignment Order - {{order.subjectCode}}',
+  html: `
+    <h2>New Assignment Order Received</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <h3>Order Details:</h3>
+      <table style="border-collapse: collapse; width: 100%;">
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Email:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.email}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Phone:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.phone}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course Code:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.subjectCode}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.deadline}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.pages}}</td>
+        </tr>
+        {{#if order.academicLevel}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Academic Level:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.academicLevel}}</td>
+        </tr>
+        {{/if}}
+        {{#if order.quote}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Estimated Quote:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.quote}}</td>
+        </tr>
+        {{/if}}
+        {{#if order.discount}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Discount:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.discount}}</td>
+        </tr>
+        {{/if}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Description:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px; white-space: pre-wrap;">{{order.description}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Terms Accepted:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.termsAccepted}}</td>
+        </tr>
+        {{#if order.attachments}}
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Attached Files:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">
+            {{#each order.attachments}}
+            <div style="margin-bottom: 8px;">
+              <a href="{{url}}" target="_blank" style="color: #0066cc; text-decoration: none;">
+                {{name}} ({{size}})
+              </a>
+            </div>
+            {{/each}}
+          </td>
+        </tr>
+        {{/if}}
+      </table>
+
+      <p style="margin-top: 20px;"><strong>Submitted on:</strong> {{submittedAt}}</p>
+    </div>
+  `,
+  text: `
+New Assignment Order Received
+
+Email: {{order.email}}
+Phone: {{order.phone}}
+Subject/Course Code: {{order.subjectCode}}
+Deadline: {{order.deadline}}
+Pages: {{order.pages}}
+{{#if order.academicLevel}}Academic Level: {{order.academicLevel}}
+{{/if}}{{#if order.quote}}Estimated Quote: {{order.quote}}
+{{/if}}{{#if order.discount}}Discount: {{order.discount}}
+{{/if}}Terms Accepted: {{order.termsAccepted}}
+
+Description:
+{{order.description}}
+{{#if order.attachments}}
+Attached Files:
+{{#each order.attachments}}- {{name}} ({{size}}): {{url}}
+{{/each}}{{/if}}
+Submitted on: {{submittedAt}}
+  `,
+};
@@ -0,0 +1,44 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const passwordResetTemplate: EmailTemplateDefinition = {
+  key: 'password-reset',
+  description: 'Sent from the forgot password form, the link lets the user choose a new password',
+  superAdminOnly: true,
+  sampleData: {
+    user: { name: 'Sam' },
+    resetUrl: 'https://example.com/reset-password/sample-token',
+    expiresInMinutes: 60,
+  },
+  subject: 'Reset your {{brand.name}} password',
+  html: `
+    <h2>Reset Your Password</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Hi {{user.name}},</p>
+
+      <p>We received a request to reset the password for your {{brand.name}} account.</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{resetUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Choose a new password
+        </a>
+      </p>
+
+      <p>This link expires in {{expiresInMinutes}} minutes and can only be used once. Resetting your password logs you out of every device.</p>
+
+      <p style="color: #666666; font-size: 12px;">If you did not ask to reset your password, you can ignore this email and your password will stay the same.</p>
+    </div>
+  `,
+  text: `
+Reset Your Password
+
+Hi {{user.name}},
+
+We received a request to reset the password for your {{brand.name}} account. Choose a new password here:
+
+{{resetUrl}}
+
+This link expires in {{expiresInMinutes}} minutes and can only be used once. Resetting your password logs you out of every device.
+
+If you did not ask to reset your password, you can ignore this email and your password will stay the same.
+  `,
+};
@@ -0,0 +1,19 @@
+// Sample values shared by the built-in templates' previews
+export const sampleOrder = {
+  orderId: 'ODR-7KQ2-M9XD-4HTP',
+  email: 'student@example.com',
+  phone: '+44 7000000000',
+  subjectCode: 'CS101',
+  description: 'A 2000 word essay comparing sorting algorithms.',
+  deadline: '7 days',
+  pages: '8',
+  academicLevel: 'Undergraduate',
+  quote: 'GBP 96.00',
+  discount: 'WELCOME10 (-GBP 9.60)',
+  termsAccepted: 'Yes',
+  attachments: [
+    { name: 'brief.pdf', url: 'https://example.com/brief.pdf', size: '120.50 KB' },
+  ],
+};
+
+export const sampleTrackingUrl = 'https://example.com/track/sample-token';
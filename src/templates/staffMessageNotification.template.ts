@@ -0,0 +1,49 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder, sampleTrackingUrl } from '@/templates/sampleData';
+
+export const staffMessageNotificationTemplate: EmailTemplateDefinition = {
+  key: 'staff-message-notification',
+  description: 'Sent to the customer when staff reply on their order',
+  sampleData: {
+    order: sampleOrder,
+    message: {
+      body: 'Your draft is ready for review.',
+      attachmentCount: 1,
+    },
+    trackingUrl: sampleTrackingUrl,
+  },
+  subject: 'New message about your order {{order.orderId}}',
+  html: `
+    <h2>New Message About Your Order</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Dear Student,</p>
+
+      <p>Our team has sent you a message about your order <strong>{{order.orderId}}</strong> ({{order.subjectCode}}):</p>
+
+      <div style="border-left: 4px solid #0066cc; padding: 8px 16px; background-color: #f7f7f7; white-space: pre-wrap;">{{message.body}}</div>
+
+      {{#if message.attachmentCount}}
+      <p>{{message.attachmentCount}} file(s) attached. You can download them from your tracking page.</p>
+      {{/if}}
+
+      <p style="margin: 20px 0;">
+        <a href="{{trackingUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          View and reply
+        </a>
+      </p>
+    </div>
+  `,
+  text: `
+New Message About Your Order
+
+Dear Student,
+
+Our team has sent you a message about your order {{order.orderId}} ({{order.subjectCode}}):
+
+{{message.body}}
+{{#if message.attachmentCount}}
+{{message.attachmentCount}} file(s) attached. You can download them from your tracking page.
+{{/if}}
+View and reply: {{trackingUrl}}
+  `,
+};
@@ -0,0 +1,43 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder, sampleTrackingUrl } from '@/templates/sampleData';
+
+export const trackingLinkTemplate: EmailTemplateDefinition = {
+  key: 'tracking-link',
+  description: 'Sent to the customer with their private tracking link',
+  sampleData: {
+    order: sampleOrder,
+    trackingUrl: sampleTrackingUrl,
+  },
+  subject: 'Track your order {{order.orderId}}',
+  html: `
+    <h2>Track Your Order</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Dear Student,</p>
+
+      <p>You can follow the progress of your order <strong>{{order.orderId}}</strong> ({{order.subjectCode}}) at any time using your private tracking link:</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{trackingUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Track my order
+        </a>
+      </p>
+
+      <p>From this page you can see your order status and quote, download completed work, message our team and upload additional files.</p>
+
+      <p style="color: #666666; font-size: 12px;">Please do not share this link. Anyone with the link can view your order.</p>
+    </div>
+  `,
+  text: `
+Track Your Order
+
+Dear Student,
+
+You can follow the progress of your order {{order.orderId}} ({{order.subjectCode}}) at any time using your private tracking link:
+
+{{trackingUrl}}
+
+From this page you can see your order status and quote, download completed work, message our team and upload additional files.
+
+Please do not share this link. Anyone with the link can view your order.
+  `,
+};
@@ -0,0 +1,45 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+
+export const userInvitationTemplate: EmailTemplateDefinition = {
+  key: 'user-invitation',
+  description: 'Sent when an admin invites someone, the link lets them choose a password',
+  superAdminOnly: true,
+  sampleData: {
+    user: { name: 'Sam', role: 'Writer' },
+    invitedBy: { name: 'Alex' },
+    acceptUrl: 'https://example.com/accept-invite/sample-token',
+    expiresInHours: 72,
+  },
+  subject: "You've been invited to {{brand.name}}",
+  html: `
+    <h2>You're Invited</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Hi {{user.name}},</p>
+
+      <p>{{invitedBy.name}} has invited you to join {{brand.name}} as a {{user.role}}. Choose a password to set up your account.</p>
+
+      <p style="margin: 20px 0;">
+        <a href="{{acceptUrl}}" target="_blank" style="background-color: #0066cc; color: #ffffff; padding: 10px 20px; text-decoration: none; border-radius: 4px;">
+          Accept invitation
+        </a>
+      </p>
+
+      <p>This link expires in {{expiresInHours}} hours and can only be used once.</p>
+
+      <p style="color: #666666; font-size: 12px;">If you were not expecting this invitation, you can ignore this email.</p>
+    </div>
+  `,
+  text: `
+You're Invited
+
+Hi {{user.name}},
+
+{{invitedBy.name}} has invited you to join {{brand.name}} as a {{user.role}}. Choose a password to set up your account:
+
+{{acceptUrl}}
+
+This link expires in {{expiresInHours}} hours and can only be used once.
+
+If you were not expecting this invitation, you can ignore this email.
+  `,
+};
@@ -0,0 +1,47 @@
+import { EmailTemplateDefinition } from '@/utils/template.utils';
+import { sampleOrder } from '@/templates/sampleData';
+
+export const writerAssignmentTemplate: EmailTemplateDefinition = {
+  key: 'writer-assignment',
+  description: 'Sent to a writer when an order is assigned to them',
+  sampleData: {
+    writer: { name: 'Alex Writer' },
+    order: sampleOrder,
+    deadline: '08/06/2025, 23:59:00',
+  },
+  subject: 'New order assigned - {{order.orderId}}',
+  html: `
+    <h2>New Order Assigned - {{order.orderId}}</h2>
+    <div style="font-family: Arial, sans-serif; line-height: 1.6;">
+      <p>Hi {{writer.name}},</p>
+
+      <p>You have been assigned a new order. Please accept or decline it from your writer dashboard.</p>
+
+      <table style="border-collapse: collapse; width: 100%;">
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course Code:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.subjectCode}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{order.pages}}</td>
+        </tr>
+        <tr>
+          <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
+          <td style="border: 1px solid #ddd; padding: 8px;">{{deadline}}</td>
+        </tr>
+      </table>
+    </div>
+  `,
+  text: `
+New Order Assigned - {{order.orderId}}
+
+Hi {{writer.name}},
+
+You have been assigned a new order. Please accept or decline it from your writer dashboard.
+
+Subject/Course Code: {{order.subjectCode}}
+Pages: {{order.pages}}
+Deadline: {{deadline}}
+  `,
+};
@@ -0,0 +1,6 @@
+export const AcademicLevels: string[] = [
+  "High School",
+  "Undergraduate",
+  "Masters",
+  "PhD",
+]
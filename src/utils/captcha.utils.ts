@@ -0,0 +1,74 @@
+export interface CaptchaVerificationRequest {
+  token: string;
+  remoteIp?: string;
+}
+
+// Every CAPTCHA service implements this interface so it can be swapped or stubbed in tests
+export interface CaptchaVerifier {
+  name: string;
+  verify(request: CaptchaVerificationRequest): Promise<boolean>;
+}
+
+const SITEVERIFY_URLS: Record<string, string> = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+  recaptcha: 'https://www.google.com/recaptcha/api/siteverify',
+};
+
+// Turnstile, hCaptcha and reCAPTCHA share the same siteverify request and response shape
+export const createSiteVerifyCaptchaVerifier = (
+  name: string,
+  secret: string = process.env.CAPTCHA_SECRET || '',
+  minimumScore: number = parseFloat(process.env.CAPTCHA_MIN_SCORE || '0.5')
+): CaptchaVerifier | undefined => {
+  const url = SITEVERIFY_URLS[name];
+  if (!url || !secret) return undefined;
+
+  return {
+    name,
+
+    verify: async ({ token, remoteIp }) => {
+      const params: Record<string, string> = { secret, response: token };
+      if (remoteIp) {
+        params.remoteip = remoteIp;
+      }
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: new URLSearchParams(params).toString(),
+        });
+        const data: any = await response.json();
+
+        // reCAPTCHA v3 also returns a score, lower means more likely a bot
+        if (typeof data.score === 'number' && data.score < minimumScore) {
+          return false;
+        }
+        return data.success === true;
+      } catch (error) {
+        console.error('Error verifying captcha:', error);
+        return false;
+      }
+    },
+  };
+};
+
+let verifier: CaptchaVerifier | null | undefined;
+
+// Replace the verifier, e.g. with a stub in tests; pass null to turn CAPTCHA checks off
+export const setCaptchaVerifier = (captchaVerifier: CaptchaVerifier | null) => {
+  verifier = captchaVerifier;
+};
+
+// Get the configured verifier from CAPTCHA_PROVIDER and CAPTCHA_SECRET, null when CAPTCHA is disabled
+export const getCaptchaVerifier = (): CaptchaVerifier | null => {
+  if (verifier === undefined) {
+    const providerName = process.env.CAPTCHA_PROVIDER;
+    verifier = providerName ? createSiteVerifyCaptchaVerifier(providerName) || null : null;
+    if (providerName && !verifier) {
+      console.warn(`CAPTCHA provider "${providerName}" is not supported or CAPTCHA_SECRET is missing`);
+    }
+  }
+  return verifier;
+};
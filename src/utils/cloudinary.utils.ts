@@ -6,29 +6,47 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 // Cloudinary will be configured in index.ts after dotenv is loaded
 
+// Unique, readable public id for an uploaded file
+const buildPublicId = (file: { originalname: string }) => {
+  const timestamp = Date.now();
+  const randomString = Math.random().toString(36).substring(2, 8);
+  return `${timestamp}-${randomString}-${file.originalname.replace(/\s+/g, '-')}`;
+};
+
 // Base storage configuration factory
-const createStorageConfig = (folderPath: string, allowedFormats: string[], resourceType: string = 'auto') => {
+// Private storage uploads as 'authenticated' assets that can only be fetched through signed URLs
+const createStorageConfig = (folderPath: string, allowedFormats: string[], resourceType: string = 'auto', isPrivate: boolean = false) => {
   return new CloudinaryStorage({
     cloudinary: cloudinary,
     params: {
       folder: `ping-assignments/${folderPath}`,
       allowed_formats: allowedFormats,
       resource_type: resourceType,
-      public_id: (req: any, file: any) => {
-        const timestamp = Date.now();
-        const randomString = Math.random().toString(36).substring(2, 8);
-        return `${timestamp}-${randomString}-${file.originalname.replace(/\s+/g, '-')}`;
-      },
-      access_mode: 'public',
-      transformation: [{ quality: 'auto:good' }], // Automatic quality optimization
+      public_id: (req: any, file: any) => buildPublicId(file),
+      ...(isPrivate
+        ? { type: 'authenticated', access_mode: 'authenticated' }
+        : {
+          access_mode: 'public',
+          transformation: [{ quality: 'auto:good' }], // Automatic quality optimization
+        }),
     } as any,
   });
 };
 
 // Client documents storage configuration
+const clientFormats = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'txt'];
 const clientStorage = createStorageConfig(
   'client-documents',
-  ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'txt']
+  clientFormats
+);
+
+// Deliverables storage configuration - private, customers download through signed URLs
+const deliverableFormats = ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'txt', 'zip', 'jpg', 'jpeg', 'png'];
+const deliverableStorage = createStorageConfig(
+  'client-deliverables',
+  deliverableFormats,
+  'raw',
+  true
 );
 
 // Blog content storage configuration
@@ -67,7 +85,7 @@ const imageAssetsStorage = createStorageConfig(
 );
 
 // Create middleware factory
-const createUploadMiddleware = (storage: CloudinaryStorage, allowedFormats: string[]) => {
+const createUploadMiddleware = (storage: multer.StorageEngine, allowedFormats: string[]) => {
   return multer({
     storage,
     limits: {
@@ -84,7 +102,10 @@ const createUploadMiddleware = (storage: CloudinaryStorage, allowedFormats: stri
 };
 
 // Create middleware instances
-const clientUploadMiddleware = createUploadMiddleware(clientStorage, ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx', 'ppt', 'pptx', 'xls', 'xlsx', 'txt']);
+const clientUploadMiddleware = createUploadMiddleware(clientStorage, clientFormats);
+// Client documents held in memory so a request can be checked before anything reaches Cloudinary
+const bufferedClientUploadMiddleware = createUploadMiddleware(multer.memoryStorage(), clientFormats);
+const deliverableUploadMiddleware = createUploadMiddleware(deliverableStorage, deliverableFormats);
 const blogUploadMiddleware = createUploadMiddleware(blogStorage, ['jpg', 'jpeg', 'png', 'gif', 'webp', 'html', 'md']);
 const sampleUploadMiddleware = createUploadMiddleware(sampleStorage, ['jpg', 'jpeg', 'png', 'gif', 'webp', 'pdf', 'doc', 'docx', 'html', 'md']);
 const serviceUploadMiddleware = createUploadMiddleware(serviceStorage, ['jpg', 'jpeg', 'png', 'gif', 'webp', 'html', 'md', 'json']);
@@ -135,6 +156,25 @@ export const upload = {
     },
     fields: (fields: { name: string, maxCount: number }[]) => clientUploadMiddleware.fields(fields),
     optional: createOptionalUploadMiddleware(clientUploadMiddleware),
+    // Parse files into memory only, store them later with cloudinaryUtils.storeBufferedFiles
+    buffered: (fieldName: string, maxCount: number = 10) => {
+      return (req: any, res: any, next: any) => {
+        bufferedClientUploadMiddleware.array(fieldName, maxCount)(req, res, (err: any) => {
+          if (err) return handleUploadError(err, res);
+          next();
+        });
+      };
+    },
+  },
+  deliverable: {
+    single: (fieldName: string) => {
+      return (req: any, res: any, next: any) => {
+        deliverableUploadMiddleware.single(fieldName)(req, res, (err: any) => {
+          if (err) return handleUploadError(err, res);
+          next();
+        });
+      };
+    },
   },
   blog: {
     single: (fieldName: string) => blogUploadMiddleware.single(fieldName),
@@ -204,9 +244,10 @@ export const upload = {
 // Cloudinary utility functions
 export const cloudinaryUtils = {
   // Delete a file from Cloudinary
-  deleteFile: async (publicId: string, resourceType: string = 'image') => {
+  // Private files are stored with type 'authenticated' and must be deleted with the same type
+  deleteFile: async (publicId: string, resourceType: string = 'image', type: string = 'upload') => {
     try {
-      const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
+      const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type });
       return result;
     } catch (error) {
       console.error('Error deleting file from Cloudinary:', error);
@@ -280,6 +321,47 @@ export const cloudinaryUtils = {
     }
   },
 
+  // Generate a signed, expiring download URL for a private (authenticated) file
+  generateSignedDownloadUrl: (publicId: string, expiresInSeconds: number, resourceType: string = 'raw') => {
+    try {
+      const expiresAt = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const url = cloudinary.utils.private_download_url(publicId, '', {
+        resource_type: resourceType,
+        type: 'authenticated',
+        expires_at: expiresAt,
+        attachment: true,
+      });
+      return { url, expiresAt: new Date(expiresAt * 1000) };
+    } catch (error) {
+      console.error('Error generating signed download URL:', error);
+      throw error;
+    }
+  },
+
+  // Upload files parsed with upload.client.buffered to client documents
+  // Fills in path (URL) and filename (public id) the same way the Cloudinary storage engine does
+  storeBufferedFiles: async (files: Express.Multer.File[], folderPath: string = 'client-documents') => {
+    for (const file of files) {
+      if (!file.buffer) continue;
+
+      const result = await new Promise<any>((resolve, reject) => {
+        cloudinary.uploader.upload_stream(
+          {
+            folder: `ping-assignments/${folderPath}`,
+            public_id: buildPublicId(file),
+            resource_type: 'auto',
+            access_mode: 'public',
+          },
+          (error, uploaded) => (error ? reject(error) : resolve(uploaded))
+        ).end(file.buffer);
+      });
+
+      file.path = result.secure_url;
+      file.filename = result.public_id;
+    }
+    return files;
+  },
+
   // Get details about a file
   getFileDetails: async (publicId: string, resourceType: string = 'image') => {
     try {
@@ -0,0 +1,113 @@
+const UNIT_IN_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Europe/London';
+
+export interface ParseDeadlineOptions {
+  timezone?: string; // IANA timezone used for dates without an explicit offset
+  from?: Date; // Reference time for relative deadlines
+}
+
+// Check a value is an IANA timezone Intl understands, e.g. "Europe/London"
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of a timezone from UTC in milliseconds at the given instant
+const getTimezoneOffset = (timezone: string, at: Date): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+};
+
+// Convert a wall clock time in a timezone to a UTC instant, handling DST changes
+const zonedTimeToUtc = (
+  year: number, month: number, day: number, hour: number, minute: number, timezone: string
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - getTimezoneOffset(timezone, new Date(wallClock));
+  // Recalculate once with the offset at the guessed instant in case it crossed a DST boundary
+  return new Date(wallClock - getTimezoneOffset(timezone, new Date(firstGuess)));
+};
+
+// Parse a customer supplied deadline such as "7 days", "tomorrow", "2025-06-01" or "2025-06-01 14:00"
+// Dates without an explicit offset are read in the given timezone, a date on its own means end of that day
+// Returns null when the value cannot be understood
+export const parseDeadline = (input: string, options: ParseDeadlineOptions = {}): Date | null => {
+  const timezone = options.timezone && isValidTimezone(options.timezone) ? options.timezone : DEFAULT_TIMEZONE;
+  const from = options.from || new Date();
+  const value = input.trim().toLowerCase();
+  if (!value) return null;
+
+  // Relative deadlines, e.g. "7 days", "in 12 hrs", "2 weeks"
+  const relative = value.match(/^(?:in\s+)?(\d+(?:\.\d+)?)\s*(minute|min|hour|hr|day|week|wk)s?$/);
+  if (relative) {
+    const amount = parseFloat(relative[1]);
+    const unit = relative[2]
+      .replace(/^min$/, 'minute')
+      .replace(/^hr$/, 'hour')
+      .replace(/^wk$/, 'week');
+    return new Date(from.getTime() + amount * UNIT_IN_MS[unit]);
+  }
+
+  // "today" / "tomorrow" mean the end of that day in the customer's timezone
+  if (value === 'today' || value === 'tomorrow') {
+    const offsetDays = value === 'tomorrow' ? 1 : 0;
+    const local = new Date(from.getTime() + getTimezoneOffset(timezone, from) + offsetDays * UNIT_IN_MS.day);
+    return zonedTimeToUtc(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate(), 23, 59, timezone);
+  }
+
+  // ISO style dates without an offset, e.g. "2025-06-01", "2025-06-01 14:00", "2025-06-01T14:00"
+  const localDate = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:[t\s](\d{2}):(\d{2})(?::\d{2})?)?$/);
+  if (localDate) {
+    const [, year, month, day, hour, minute] = localDate;
+    return zonedTimeToUtc(
+      parseInt(year, 10),
+      parseInt(month, 10),
+      parseInt(day, 10),
+      hour !== undefined ? parseInt(hour, 10) : 23,
+      minute !== undefined ? parseInt(minute, 10) : 59,
+      timezone
+    );
+  }
+
+  // Anything else with an explicit offset or in a format understood by Date.parse
+  const timestamp = Date.parse(input.trim());
+  if (!isNaN(timestamp)) {
+    return new Date(timestamp);
+  }
+
+  return null;
+};
+
+// express-validator custom check: the deadline must parse and be in the future
+export const validateFutureDeadline = (value: string, { req }: { req: any }) => {
+  const deadlineAt = parseDeadline(String(value), { timezone: req.body?.deadlineTimezone });
+  if (!deadlineAt) {
+    throw new Error('Deadline could not be understood. Use a date or a duration such as "7 days".');
+  }
+  if (deadlineAt.getTime() <= Date.now()) {
+    throw new Error('Deadline must be in the future');
+  }
+  return true;
+};
@@ -0,0 +1,122 @@
+import DiscountCode, { IDiscountCode, EDiscountType } from "@/models/discountCode.model";
+import Order, { EOrderStatus, IOrderQuoteDiscount } from "@/models/order.model";
+import { CalculatedQuote, roundCurrency } from "@/utils/pricing.utils";
+
+export interface DiscountContext {
+  subjectCode?: string;
+  pages: number;
+  email?: string; // Needed to enforce per-customer limits
+}
+
+export interface DiscountCheckResult {
+  discount?: IDiscountCode;
+  error?: string; // Why the code cannot be used, safe to show to the customer
+}
+
+export const normaliseDiscountCode = (code: string) => code.trim().toUpperCase();
+
+// Check everything that can be decided from the code itself
+const getIneligibilityReason = (discount: IDiscountCode, context: DiscountContext, now: Date): string | undefined => {
+  if (!discount.active) return "This discount code is not active";
+  if (discount.validFrom && discount.validFrom > now) return "This discount code is not valid yet";
+  if (discount.validUntil && discount.validUntil < now) return "This discount code has expired";
+  if (discount.maxRedemptions && discount.redemptionCount >= discount.maxRedemptions) {
+    return "This discount code has reached its usage limit";
+  }
+  if (discount.minPages && context.pages < discount.minPages) {
+    return `This discount code requires at least ${discount.minPages} pages`;
+  }
+  if (discount.maxPages && context.pages > discount.maxPages) {
+    return `This discount code is valid for up to ${discount.maxPages} pages`;
+  }
+  if (discount.subjects.length > 0) {
+    const subjectCode = (context.subjectCode || "").toLowerCase();
+    if (!discount.subjects.some(subject => subjectCode.includes(subject.toLowerCase()))) {
+      return "This discount code is not valid for this subject";
+    }
+  }
+  return undefined;
+};
+
+// Look up a code and check it can be used for an order
+export const checkDiscountCode = async (
+  code: string,
+  context: DiscountContext,
+  now: Date = new Date()
+): Promise<DiscountCheckResult> => {
+  const discount = await DiscountCode.findOne({ code: normaliseDiscountCode(code) });
+  if (!discount) {
+    return { error: "Discount code not found" };
+  }
+
+  const reason = getIneligibilityReason(discount, context, now);
+  if (reason) {
+    return { error: reason };
+  }
+
+  // Cancelled orders give the customer their use back
+  if (discount.maxRedemptionsPerCustomer && context.email) {
+    const customerRedemptions = await Order.countDocuments({
+      "quote.discount.code": discount.code,
+      "customer.email": context.email,
+      status: { $ne: EOrderStatus.CANCELLED },
+    });
+    if (customerRedemptions >= discount.maxRedemptionsPerCustomer) {
+      return { error: "You have already used this discount code" };
+    }
+  }
+
+  return { discount };
+};
+
+// Count a redemption, guarded so concurrent orders cannot go over the code's limit
+export const redeemDiscountCode = async (discount: IDiscountCode): Promise<boolean> => {
+  const result = await DiscountCode.updateOne(
+    {
+      _id: discount._id,
+      $or: [
+        { maxRedemptions: { $exists: false } },
+        { maxRedemptions: null },
+        { $expr: { $lt: ["$redemptionCount", "$maxRedemptions"] } },
+      ],
+    },
+    { $inc: { redemptionCount: 1 } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Give a redemption back when the order it was counted for could not be placed
+export const releaseDiscountRedemption = async (discount: IDiscountCode): Promise<void> => {
+  try {
+    await DiscountCode.updateOne(
+      { _id: discount._id, redemptionCount: { $gt: 0 } },
+      { $inc: { redemptionCount: -1 } }
+    );
+  } catch (error) {
+    console.error("Error releasing discount redemption:", error);
+  }
+};
+
+// Take a discount off a calculated quote, never below zero
+export const applyDiscountToQuote = (
+  quote: CalculatedQuote,
+  discount: Pick<IOrderQuoteDiscount, "code" | "type" | "value">
+): CalculatedQuote => {
+  const amount = roundCurrency(Math.min(
+    discount.type === EDiscountType.PERCENTAGE
+      ? quote.calculatedTotal * (discount.value / 100)
+      : discount.value,
+    quote.calculatedTotal
+  ));
+
+  return {
+    ...quote,
+    discount: {
+      code: discount.code,
+      type: discount.type,
+      value: discount.value,
+      amount,
+    },
+    total: roundCurrency(quote.calculatedTotal - amount),
+  };
+};
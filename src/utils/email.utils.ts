@@ -1,4 +1,5 @@
-import nodemailer from 'nodemailer';
+import { renderEmail } from '@/utils/emailTemplate.utils';
+import { queueEmail } from '@/utils/emailOutbox.utils';
 
 export interface FileAttachment {
   url: string;
@@ -14,90 +15,67 @@ export interface OrderFormData {
   subjectCode: string;
   description: string;
   deadline: string;
+  deadlineTimezone?: string;
   pages: string;
+  academicLevel?: string;
   acceptTerms: boolean;
   attachments?: FileAttachment[];
   orderId?: string;
+  quote?: {
+    total: number;
+    currency: string;
+  };
+  discountCode?: string; // Code entered by the customer
+  discount?: {
+    code: string;
+    amount: number; // Amount taken off the quote, in the quote currency
+  };
 }
 
-// Create nodemailer transporter
-const createTransporter = () => {
-  return nodemailer.createTransport({
-    service: 'gmail', // You can change this to other services
-    auth: {
-      user: process.env.EMAIL_USER,
-      pass: process.env.EMAIL_PASS, // Use app password for Gmail
-    },
-  });
-};
+const formatFileSize = (size: number) => `${(size / 1024).toFixed(2)} KB`;
+
+const toTemplateAttachments = (attachments: FileAttachment[] = []) =>
+  attachments.map(file => ({ name: file.name, url: file.url, size: formatFileSize(file.size) }));
+
+// Order values as shown in emails, the templates escape them when rendering
+const toTemplateOrder = (formData: OrderFormData) => ({
+  orderId: formData.orderId,
+  email: formData.email,
+  phone: `${formData.countryCode} ${formData.phoneNumber}`,
+  subjectCode: formData.subjectCode,
+  description: formData.description,
+  deadline: formData.deadline,
+  pages: formData.pages,
+  academicLevel: formData.academicLevel,
+  quote: formData.quote ? `${formData.quote.currency} ${formData.quote.total.toFixed(2)}` : undefined,
+  discount: formData.discount
+    ? `${formData.discount.code} (-${formData.quote?.currency || ''} ${formData.discount.amount.toFixed(2)})`
+    : undefined,
+  termsAccepted: formData.acceptTerms ? 'Yes' : 'No',
+  attachments: toTemplateAttachments(formData.attachments),
+});
+
+// Each email below is rendered from its template and handed to the outbox (see emailOutbox.utils),
+// they return true once the email is accepted for delivery
 
 // Send order notification email
 export const sendOrderNotificationEmail = async (formData: OrderFormData): Promise<boolean> => {
   try {
-    const transporter = createTransporter();
-
-    const emailContent = `
-      <h2>New Assignment Order Received</h2>
-      <div style="font-family: Arial, sans-serif; line-height: 1.6;">
-        <h3>Order Details:</h3>
-        <table style="border-collapse: collapse; width: 100%;">
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Email:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.email}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Phone:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.countryCode} ${formData.phoneNumber}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course Code:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.subjectCode}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.deadline}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.pages}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Description:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.description}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Terms Accepted:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.acceptTerms ? 'Yes' : 'No'}</td>
-          </tr>
-          ${formData.attachments && formData.attachments.length > 0 ? `
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Attached Files:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">
-              ${formData.attachments.map(file => `
-                <div style="margin-bottom: 8px;">
-                  <a href="${file.url}" target="_blank" style="color: #0066cc; text-decoration: none;">
-                    ${file.name} (${(file.size / 1024).toFixed(2)} KB)
-                  </a>
-                </div>
-              `).join('')}
-            </td>
-          </tr>
-          ` : ''}
-        </table>
-        
-        <p style="margin-top: 20px;"><strong>Submitted on:</strong> ${new Date().toLocaleString()}</p>
-      </div>
-    `;
+
+    const { subject, html, text } = await renderEmail('order-notification', {
+      order: toTemplateOrder(formData),
+      submittedAt: new Date().toLocaleString(),
+    });
 
     const mailOptions = {
       from: process.env.EMAIL_USER,
       to: process.env.NOTIFICATION_EMAIL || process.env.EMAIL_USER,
-      subject: `New Assignment Order - ${formData.subjectCode}`,
-      html: emailContent,
+      subject,
+      html,
+      text,
     };
 
-    await transporter.sendMail(mailOptions);
-    return true;
+    return await queueEmail(mailOptions, { type: 'order-notification', orderId: formData.orderId });
   } catch (error) {
     console.error('Error sending email:', error);
     return false;
@@ -105,63 +83,392 @@ export const sendOrderNotificationEmail = async (formData: OrderFormData): Promi
 };
 
 // Send confirmation email to customer
-export const sendCustomerConfirmationEmail = async (formData: OrderFormData): Promise<boolean> => {
+export const sendCustomerConfirmationEmail = async (formData: OrderFormData, trackingUrl: string): Promise<boolean> => {
   try {
-    const transporter = createTransporter();
-
-    const emailContent = `
-      <h2>Order Confirmation - Ping Assignment Help UK</h2>
-      <div style="font-family: Arial, sans-serif; line-height: 1.6;">
-        <p>Dear Student,</p>
-        
-        <p>Thank you for choosing Ping Assignment Help UK! We have successfully received your order and our expert writers are ready to work on your assignment.</p>
-        
-        <h3>Your Order Summary:</h3>
-        <table style="border-collapse: collapse; width: 100%;">
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Subject/Course:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.subjectCode}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Deadline:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.deadline}</td>
-          </tr>
-          <tr>
-            <td style="border: 1px solid #ddd; padding: 8px; background-color: #f2f2f2;"><strong>Pages:</strong></td>
-            <td style="border: 1px solid #ddd; padding: 8px;">${formData.pages}</td>
-          </tr>
-        </table>
-        
-        <h3>What Happens Next?</h3>
-        <ul>
-          <li>Our team will review your requirements within 1 hour</li>
-          <li>You'll receive a quote and payment details</li>
-          <li>Once payment is confirmed, our expert writers will start working</li>
-          <li>You'll receive regular updates on your assignment progress</li>
-        </ul>
-        
-        <p><strong>Need immediate assistance?</strong> Contact us on WhatsApp: ${process.env.WHATSAPP_NUMBER || '+44 7XXX XXXXXX'}</p>
-        
-        <p>Best regards,<br/>
-        Ping Assignment Help UK Team</p>
-      </div>
-    `;
+
+    const { subject, html, text } = await renderEmail('customer-confirmation', {
+      order: toTemplateOrder(formData),
+      trackingUrl,
+    });
 
     const mailOptions = {
       from: process.env.EMAIL_USER,
       to: formData.email,
-      subject: 'Order Confirmation - Ping Assignment Help UK',
-      html: emailContent,
+      subject,
+      html,
+      text,
     };
 
-    await transporter.sendMail(mailOptions);
-    return true;
+    return await queueEmail(mailOptions, { type: 'customer-confirmation', orderId: formData.orderId });
   } catch (error) {
     console.error('Error sending confirmation email:', error);
     return false;
   }
 };
 
+// Send the private order tracking link to the customer
+export const sendTrackingLinkEmail = async (formData: OrderFormData, trackingUrl: string): Promise<boolean> => {
+  try {
+
+    const { subject, html, text } = await renderEmail('tracking-link', {
+      order: toTemplateOrder(formData),
+      trackingUrl,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: formData.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'tracking-link', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending tracking link email:', error);
+    return false;
+  }
+};
+
+export interface OrderMessageEmailData {
+  body: string;
+  attachments?: FileAttachment[];
+}
+
+// Notify the admin team that a customer replied on an order thread
+export const sendCustomerMessageNotificationEmail = async (
+  formData: OrderFormData,
+  message: OrderMessageEmailData
+): Promise<boolean> => {
+  try {
+
+    const { subject, html, text } = await renderEmail('customer-message-notification', {
+      order: toTemplateOrder(formData),
+      message: {
+        body: message.body,
+        attachments: toTemplateAttachments(message.attachments),
+      },
+      receivedAt: new Date().toLocaleString(),
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: process.env.NOTIFICATION_EMAIL || process.env.EMAIL_USER,
+      replyTo: formData.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'customer-message-notification', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending customer message notification email:', error);
+    return false;
+  }
+};
+
+// Notify the customer that staff replied on their order thread
+export const sendStaffMessageNotificationEmail = async (
+  formData: OrderFormData,
+  message: OrderMessageEmailData,
+  trackingUrl: string
+): Promise<boolean> => {
+  try {
+
+    const { subject, html, text } = await renderEmail('staff-message-notification', {
+      order: toTemplateOrder(formData),
+      message: {
+        body: message.body,
+        attachmentCount: message.attachments?.length || 0,
+      },
+      trackingUrl,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: formData.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'staff-message-notification', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending staff message notification email:', error);
+    return false;
+  }
+};
+
+// Let the customer know their completed work is ready to download
+export const sendOrderDeliveredEmail = async (formData: OrderFormData, trackingUrl: string): Promise<boolean> => {
+  try {
+
+    const { subject, html, text } = await renderEmail('order-delivered', {
+      order: toTemplateOrder(formData),
+      trackingUrl,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: formData.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'order-delivered', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending order delivered email:', error);
+    return false;
+  }
+};
+
+// Tell a writer they have been assigned an order
+export const sendWriterAssignmentEmail = async (
+  writer: { name: string; email: string },
+  formData: OrderFormData,
+  deadlineAt?: Date
+): Promise<boolean> => {
+  try {
+
+    const { subject, html, text } = await renderEmail('writer-assignment', {
+      writer: { name: writer.name },
+      order: toTemplateOrder(formData),
+      deadline: deadlineAt ? deadlineAt.toLocaleString() : formData.deadline,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: writer.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'writer-assignment', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending writer assignment email:', error);
+    return false;
+  }
+};
+
+// Warn admins and the assigned writer that a deadline is close or has passed
+export const sendDeadlineAlertEmail = async (
+  recipients: string[],
+  formData: OrderFormData,
+  deadlineAt: Date,
+  hoursLeft: number | null // null when the deadline has already passed
+): Promise<boolean> => {
+  try {
+    const timezone = formData.deadlineTimezone || 'UTC';
+
+    const { subject, html, text } = await renderEmail('deadline-alert', {
+      order: toTemplateOrder(formData),
+      overdue: hoursLeft === null,
+      hoursLeft,
+      deadline: deadlineAt.toLocaleString('en-GB', { timeZone: timezone }),
+      timezone,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: recipients.join(', '),
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'deadline-alert', orderId: formData.orderId });
+  } catch (error) {
+    console.error('Error sending deadline alert email:', error);
+    return false;
+  }
+};
+
+export interface NewsletterDigestBlog {
+  title: string;
+  description: string;
+  category: string;
+  url: string;
+}
+
+// Ask a new newsletter subscriber to confirm their email address
+export const sendNewsletterConfirmationEmail = async (
+  subscriber: { email: string; name?: string },
+  confirmUrl: string
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('newsletter-confirmation', {
+      subscriber: { name: subscriber.name },
+      confirmUrl,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: subscriber.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'newsletter-confirmation' });
+  } catch (error) {
+    console.error('Error sending newsletter confirmation email:', error);
+    return false;
+  }
+};
+
+// Send a digest of new blogs to a subscriber, with one-click unsubscribe headers
+export const sendNewsletterDigestEmail = async (
+  subscriber: { email: string; name?: string },
+  blogs: NewsletterDigestBlog[],
+  unsubscribeUrls: { page: string; oneClick: string }
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('newsletter-digest', {
+      subscriber: { name: subscriber.name },
+      blogs,
+      unsubscribeUrl: unsubscribeUrls.page,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: subscriber.email,
+      subject,
+      html,
+      text,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrls.oneClick}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    };
+
+    // Digests go to many readers at once, the outbox worker sends them
+    return await queueEmail(mailOptions, { type: 'newsletter-digest', sendNow: false });
+  } catch (error) {
+    console.error('Error sending newsletter digest email:', error);
+    return false;
+  }
+};
+
+// Notify the admins chosen by the routing rules about a new lead form submission
+export const sendLeadNotificationEmail = async (
+  recipients: string[],
+  form: { type: string; name: string },
+  fields: { label: string; value: string }[],
+  details: { replyTo?: string; sourceUrl?: string }
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('lead-notification', {
+      form: { type: form.type, name: form.name },
+      fields,
+      sourceUrl: details.sourceUrl,
+      submittedAt: new Date().toLocaleString(),
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: recipients,
+      replyTo: details.replyTo,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'lead-notification' });
+  } catch (error) {
+    console.error('Error sending lead notification email:', error);
+    return false;
+  }
+};
+
+// Ask a newly registered user to verify their email address
+export const sendEmailVerificationEmail = async (
+  user: { email: string; name: string },
+  verifyUrl: string,
+  expiresInHours: number
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('email-verification', {
+      user: { name: user.name },
+      verifyUrl,
+      expiresInHours,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'email-verification', sensitive: true });
+  } catch (error) {
+    console.error('Error sending email verification email:', error);
+    return false;
+  }
+};
+
+// Invite someone an admin added, the link lets them choose a password
+export const sendUserInvitationEmail = async (
+  user: { email: string; name: string; role: string },
+  invitedBy: { name: string },
+  acceptUrl: string,
+  expiresInHours: number
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('user-invitation', {
+      user: { name: user.name, role: user.role },
+      invitedBy: { name: invitedBy.name },
+      acceptUrl,
+      expiresInHours,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'user-invitation', sensitive: true });
+  } catch (error) {
+    console.error('Error sending user invitation email:', error);
+    return false;
+  }
+};
+
+// Send a password reset link, the email is only sent to addresses with an account
+// Only stored here and sent by the outbox worker, so queueing takes the same short time for every request
+export const sendPasswordResetEmail = async (
+  user: { email: string; name: string },
+  resetUrl: string,
+  expiresInMinutes: number
+): Promise<boolean> => {
+  try {
+    const { subject, html, text } = await renderEmail('password-reset', {
+      user: { name: user.name },
+      resetUrl,
+      expiresInMinutes,
+    });
+
+    const mailOptions = {
+      from: process.env.EMAIL_USER,
+      to: user.email,
+      subject,
+      html,
+      text,
+    };
+
+    return await queueEmail(mailOptions, { type: 'password-reset', sensitive: true, sendNow: false });
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    return false;
+  }
+};
+
 // Generate WhatsApp message
 export const generateWhatsAppMessage = (formData: OrderFormData): string => {
   const message = `
@@ -173,7 +480,9 @@ export const generateWhatsAppMessage = (formData: OrderFormData): string => {
 *Subject/Course:* ${formData.subjectCode}
 *Deadline:* ${formData.deadline}
 *Pages:* ${formData.pages}
-
+${formData.quote ? `*Estimated Quote:* ${formData.quote.currency} ${formData.quote.total.toFixed(2)}
+` : ''}${formData.discount ? `*Discount:* ${formData.discount.code} (-${formData.quote?.currency || ''} ${formData.discount.amount.toFixed(2)})
+` : ''}
 *Description:*
 ${formData.description}
 
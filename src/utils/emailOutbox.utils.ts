@@ -0,0 +1,197 @@
+import mongoose from 'mongoose';
+import EmailOutbox, { IEmailOutbox, EEmailOutboxStatus } from '@/models/emailOutbox.model';
+import { getMailTransport, MailMessage } from '@/utils/mailTransport.utils';
+
+const MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS || '6', 10);
+const RETRY_BASE_SECONDS = parseInt(process.env.EMAIL_RETRY_BASE_SECONDS || '60', 10);
+const RETRY_MAX_SECONDS = parseInt(process.env.EMAIL_RETRY_MAX_SECONDS || '21600', 10);
+const SEND_LOCK_SECONDS = 120;
+
+export interface QueueEmailOptions {
+  type: string; // What the email is for, e.g. order-notification
+  orderId?: string;
+  sendNow?: boolean; // Bulk mail sets false and leaves every attempt to the worker
+  sensitive?: boolean; // Verification, invitation and reset links, the body is dropped once sent
+}
+
+// Delay before the next attempt doubles each time: 1m, 2m, 4m... up to the maximum
+export const getRetryDelaySeconds = (attempts: number): number =>
+  Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_SECONDS);
+
+const toRecipients = (to: MailMessage['to']): string[] =>
+  (Array.isArray(to) ? to : (to || '').split(','))
+    .map(address => address.trim())
+    .filter(Boolean);
+
+// Due messages, plus messages whose worker stopped mid-send
+// Those may already have gone out, so delivery is at least once
+const getDueFilter = (now: Date) => ({
+  $or: [
+    { status: EEmailOutboxStatus.PENDING, nextAttemptAt: { $lte: now } },
+    { status: EEmailOutboxStatus.SENDING, lockedUntil: { $lte: now } },
+  ],
+});
+
+// Claim a message atomically so two workers never send the same one
+const claimEmail = (filter: Record<string, any>, now: Date = new Date()) =>
+  EmailOutbox.findOneAndUpdate(
+    { ...filter, ...getDueFilter(now) },
+    { status: EEmailOutboxStatus.SENDING, lockedUntil: new Date(now.getTime() + SEND_LOCK_SECONDS * 1000) },
+    { new: true, sort: { nextAttemptAt: 1 } }
+  );
+
+// Make one attempt at a claimed message and record it in the attempt log
+const attemptDelivery = async (email: IEmailOutbox): Promise<EEmailOutboxStatus> => {
+  const transport = getMailTransport();
+  const attemptedAt = new Date();
+  const attempts = email.attempts + 1;
+  const { from, to, replyTo, subject, html, text, headers } = email.message;
+
+  try {
+    const sent = await transport.sendMail({ from, to, replyTo, subject, html, text, headers });
+
+    await EmailOutbox.updateOne({ _id: email._id }, {
+      status: EEmailOutboxStatus.SENT,
+      attempts,
+      messageId: sent.messageId,
+      sentAt: new Date(),
+      // A sent login link stays usable until it expires, so it is not kept where admins can read it
+      $unset: email.sensitive ? { lockedUntil: 1, 'message.html': 1, 'message.text': 1 } : { lockedUntil: 1 },
+      $push: {
+        attemptLog: {
+          attemptedAt,
+          success: true,
+          transport: transport.name,
+          messageId: sent.messageId,
+          durationMs: Date.now() - attemptedAt.getTime(),
+        },
+      },
+    });
+    return EEmailOutboxStatus.SENT;
+  } catch (error: any) {
+    const message = String(error?.message || error).slice(0, 1000);
+    const gaveUp = attempts >= email.maxAttempts;
+
+    await EmailOutbox.updateOne({ _id: email._id }, {
+      status: gaveUp ? EEmailOutboxStatus.FAILED : EEmailOutboxStatus.PENDING,
+      attempts,
+      lastError: message,
+      ...(gaveUp ? {} : { nextAttemptAt: new Date(Date.now() + getRetryDelaySeconds(attempts) * 1000) }),
+      $unset: { lockedUntil: 1 },
+      $push: {
+        attemptLog: {
+          attemptedAt,
+          success: false,
+          transport: transport.name,
+          error: message,
+          durationMs: Date.now() - attemptedAt.getTime(),
+        },
+      },
+    });
+
+    if (gaveUp) {
+      console.error(`Giving up on ${email.type} email ${email._id} after ${attempts} attempts:`, message);
+    } else {
+      console.warn(`Attempt ${attempts} of ${email.type} email ${email._id} failed, retrying:`, message);
+    }
+    return gaveUp ? EEmailOutboxStatus.FAILED : EEmailOutboxStatus.PENDING;
+  }
+};
+
+// Store an email in the outbox and make the first attempt straight away, failed attempts are retried by the worker
+// Returns true once the email is accepted for delivery
+export const queueEmail = async (message: MailMessage, options: QueueEmailOptions): Promise<boolean> => {
+  // Without a database the email can only be sent directly
+  if (mongoose.connection.readyState !== 1) {
+    await getMailTransport().sendMail(message);
+    return true;
+  }
+
+  const email = await EmailOutbox.create({
+    type: options.type,
+    orderId: options.orderId,
+    message: { ...message, to: toRecipients(message.to) },
+    sensitive: options.sensitive || false,
+    maxAttempts: MAX_ATTEMPTS,
+    nextAttemptAt: new Date(),
+  });
+
+  if (options.sendNow === false) return true;
+
+  try {
+    const claimed = await claimEmail({ _id: email._id });
+    if (claimed) await attemptDelivery(claimed);
+  } catch (error) {
+    // Stored already, the worker picks it up
+    console.error(`Error sending ${options.type} email ${email._id}:`, error);
+  }
+
+  return true;
+};
+
+// Send due messages, safe to run from several workers at once
+export const processEmailOutbox = async (
+  limit: number = parseInt(process.env.EMAIL_OUTBOX_BATCH_SIZE || '50', 10)
+) => {
+  const summary = { sent: 0, retrying: 0, failed: 0 };
+
+  for (let processed = 0; processed < limit; processed++) {
+    const email = await claimEmail({});
+    if (!email) break;
+
+    const status = await attemptDelivery(email);
+    if (status === EEmailOutboxStatus.SENT) summary.sent += 1;
+    else if (status === EEmailOutboxStatus.FAILED) summary.failed += 1;
+    else summary.retrying += 1;
+  }
+
+  return summary;
+};
+
+// Give a failed message a fresh set of attempts and send it now
+// Returns null when the message does not exist or has not failed
+export const resendOutboxEmail = async (id: string, resentBy?: any) => {
+  const failed = await EmailOutbox.findOne({ _id: id, status: EEmailOutboxStatus.FAILED });
+  if (!failed) return null;
+
+  // Guarded on the status so two admins resending at once only send it once
+  const now = new Date();
+  const email = await EmailOutbox.findOneAndUpdate(
+    { _id: failed._id, status: EEmailOutboxStatus.FAILED },
+    {
+      status: EEmailOutboxStatus.SENDING,
+      lockedUntil: new Date(now.getTime() + SEND_LOCK_SECONDS * 1000),
+      maxAttempts: failed.attempts + MAX_ATTEMPTS,
+      nextAttemptAt: now,
+      resentBy,
+    },
+    { new: true }
+  );
+  if (!email) return null;
+
+  await attemptDelivery(email);
+  return EmailOutbox.findById(email._id);
+};
+
+let workerHandle: NodeJS.Timeout | undefined;
+let workerRunning = false;
+
+// Send due messages on an interval for long running servers
+// Serverless deployments call GET /api/cron/emails instead
+export const startEmailOutboxWorker = () => {
+  if (workerHandle || process.env.EMAIL_OUTBOX_WORKER_ENABLED === 'false') return;
+
+  const intervalSeconds = parseInt(process.env.EMAIL_OUTBOX_INTERVAL_SECONDS || '60', 10);
+  workerHandle = setInterval(() => {
+    if (workerRunning) return; // Previous run is still sending
+    workerRunning = true;
+    processEmailOutbox()
+      .catch(error => console.error('Error processing email outbox:', error))
+      .finally(() => {
+        workerRunning = false;
+      });
+  }, intervalSeconds * 1000);
+  workerHandle.unref();
+
+  console.log(`Email outbox worker running every ${intervalSeconds} seconds`);
+};
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import EmailTemplate from '@/models/emailTemplate.model';
+import { emailConfig } from '@/config/email.config';
+import { defaultEmailTemplates } from '@/templates';
+import { EmailTemplateContent, TemplateData, renderTemplate } from '@/utils/template.utils';
+
+const toContent = ({ subject, html, text }: EmailTemplateContent): EmailTemplateContent => ({ subject, html, text });
+
+// Content for a template: the given stored version, else the active one, else the built-in default
+// Returns null for unknown keys or versions
+export const getTemplateContent = async (key: string, version?: number): Promise<EmailTemplateContent | null> => {
+  const fallback = defaultEmailTemplates[key];
+  if (!fallback) return null;
+
+  // Emails still go out with the built-in template when the database is unavailable
+  if (mongoose.connection.readyState !== 1) {
+    return version === undefined ? toContent(fallback) : null;
+  }
+
+  const stored = await EmailTemplate.findOne({ key }).lean();
+  const wanted = version ?? stored?.activeVersion;
+  if (wanted === undefined || wanted === null) return toContent(fallback);
+
+  const match = stored?.versions.find(item => item.version === wanted);
+  if (match) return toContent(match);
+
+  return version === undefined ? toContent(fallback) : null;
+};
+
+// Render the active version of a template, brand details are always available as {{brand.*}}
+export const renderEmail = async (key: string, data: TemplateData): Promise<EmailTemplateContent> => {
+  let content: EmailTemplateContent | null;
+  try {
+    content = await getTemplateContent(key);
+  } catch (error) {
+    console.error(`Error loading email template ${key}, using the default:`, error);
+    content = defaultEmailTemplates[key] || null;
+  }
+  if (!content) {
+    throw new Error(`Unknown email template ${key}`);
+  }
+
+  return renderTemplate(content, { brand: emailConfig.brand, ...data });
+};
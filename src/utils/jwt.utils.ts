@@ -1,15 +1,36 @@
-import { Request, Response } from "express";
+import { CookieOptions, Request, Response } from "express";
 import { IUser } from "@/models/user.model";
+import { ISession } from "@/models/session.model";
+import { createSession, getRefreshTokenTtlMs } from "@/utils/session.utils";
 import jwt from 'jsonwebtoken';
 
-export const sendTokenResponse = (user: IUser, statusCode: number, res: Response, req: Request) => {
+const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15', 10);
+
+const baseCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: true, // Required for SameSite=None
+  sameSite: 'none', // Allow cross-site cookies in both environments
+};
+
+const accessCookieOptions: CookieOptions = {
+  ...baseCookieOptions,
+  path: '/', // Ensure cookie is sent for all paths
+};
+
+// The refresh token is only needed by the auth routes, so it is not sent with every request
+const refreshCookieOptions: CookieOptions = {
+  ...baseCookieOptions,
+  path: '/api/auth',
+};
+
+// Short lived access token tied to a session
+export const createAccessToken = (user: IUser, sessionId: ISession['_id'], req: Request) => {
   // Get fingerprinting information
   const userAgent = req.headers['user-agent'] || 'unknown';
-  const ipAddress = req.ip || req.connection.remoteAddress || 'unknown';
-  
-  // Create a more secure token with additional claims
-  const token = jwt.sign(
-    { 
+  const ipAddress = req.ip || req.socket?.remoteAddress || 'unknown';
+
+  return jwt.sign(
+    {
       id: user._id,
       name: user.name,
       email: user.email,
@@ -17,30 +38,44 @@ export const sendTokenResponse = (user: IUser, statusCode: number, res: Response
         userAgent: userAgent.substring(0, 100), // Limit length for security
         ip: ipAddress
       },
-      // Adding version number for future JWT structure changes
-      version: 1
+      sid: sessionId.toString(),
+      // Version 2 tokens are short lived and carry a session id
+      version: 2
     },
     process.env.JWT_SECRET || 'your-secret-key',
     {
-      expiresIn: '24h', // Longer expiry time to prevent frequent auth issues
+      expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
     }
   );
+};
 
-  const cookieOptions = {
-    expires: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-    httpOnly: true,
-    secure: true, // Required for SameSite=None
-    sameSite: 'none' as const, // Allow cross-site cookies in both environments
-    path: '/', // Ensure cookie is sent for all paths
-  };
+// Set both auth cookies and send the user, shared by login and refresh
+// The refresh token only travels in its httpOnly cookie so page scripts can never read it
+export const sendSessionResponse = (
+  user: IUser,
+  session: ISession,
+  refreshToken: string,
+  statusCode: number,
+  res: Response,
+  req: Request
+) => {
+  const token = createAccessToken(user, session._id, req);
 
-  // Set cookie and send response with fields that match our user model
+  // Set cookies and send response with fields that match our user model
   res
     .status(statusCode)
-    .cookie('token', token, cookieOptions)
+    .cookie('token', token, {
+      ...accessCookieOptions,
+      expires: new Date(Date.now() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000),
+    })
+    .cookie('refreshToken', refreshToken, {
+      ...refreshCookieOptions,
+      expires: new Date(Date.now() + getRefreshTokenTtlMs()),
+    })
     .json({
       success: true,
       token,
+      expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
       data: {
         id: user._id,
         _id: user._id,
@@ -48,4 +83,15 @@ export const sendTokenResponse = (user: IUser, statusCode: number, res: Response
         email: user.email,
       },
     });
-};
\ No newline at end of file
+};
+
+// Start a new session for the user and send its tokens
+export const sendTokenResponse = async (user: IUser, statusCode: number, res: Response, req: Request) => {
+  const { session, refreshToken } = await createSession(user._id, req);
+  sendSessionResponse(user, session, refreshToken, statusCode, res, req);
+};
+
+export const clearAuthCookies = (res: Response) => {
+  res.clearCookie('token', accessCookieOptions);
+  res.clearCookie('refreshToken', refreshCookieOptions);
+};
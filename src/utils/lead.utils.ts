@@ -0,0 +1,90 @@
+import validator from 'validator';
+import { leadConfig, LeadConfig, LeadFieldSchema, LeadFormConfig } from '@/config/leadForms.config';
+
+export interface LeadFieldError {
+  field: string;
+  message: string;
+}
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+const isEmpty = (value: any) => value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Check a single value against its schema, returns the cleaned value or an error message
+const checkField = (field: LeadFieldSchema, value: any): { value?: any; error?: string } => {
+  switch (field.type) {
+    case 'boolean':
+      if (value === true || value === 'true') return { value: true };
+      if (value === false || value === 'false') return { value: false };
+      return { error: `${field.label} must be true or false` };
+
+    case 'date':
+      if (typeof value !== 'string' || !validator.isISO8601(value)) return { error: `${field.label} must be a date` };
+      return { value: new Date(value) };
+
+    default: {
+      if (typeof value !== 'string') return { error: `${field.label} must be text` };
+      const text = value.trim();
+      const maxLength = field.maxLength || (field.type === 'textarea' ? 2000 : 200);
+
+      if (text.length > maxLength) return { error: `${field.label} must not exceed ${maxLength} characters` };
+      if (field.type === 'email' && !validator.isEmail(text)) return { error: `${field.label} must be a valid email address` };
+      if (field.type === 'phone' && !PHONE_PATTERN.test(text)) return { error: `${field.label} must be a valid phone number` };
+      if (field.type === 'select' && !field.options?.includes(text)) return { error: `${field.label} must be one of the listed options` };
+
+      return { value: field.type === 'email' ? text.toLowerCase() : text };
+    }
+  }
+};
+
+// Validate a submission against the form's field schema
+// Only fields in the schema are kept, anything else in the body is ignored
+export const validateLeadFields = (form: LeadFormConfig, input: Record<string, any> = {}) => {
+  const values: Record<string, any> = {};
+  const errors: LeadFieldError[] = [];
+
+  for (const field of form.fields) {
+    const value = input[field.name];
+
+    if (isEmpty(value)) {
+      if (field.required) errors.push({ field: field.name, message: `${field.label} is required` });
+      continue;
+    }
+
+    const result = checkField(field, value);
+    if (result.error) {
+      errors.push({ field: field.name, message: result.error });
+    } else {
+      values[field.name] = result.value;
+    }
+  }
+
+  return { values, errors };
+};
+
+// Admin addresses for a submission, the first matching rule wins
+export const getLeadRecipients = (
+  formType: string,
+  values: Record<string, any>,
+  config: LeadConfig = leadConfig
+): string[] => {
+  const rule = config.routing.find(item =>
+    (item.formType === '*' || item.formType === formType) &&
+    (!item.when || item.when.in.includes(String(values[item.when.field])))
+  );
+  return rule ? rule.to : config.defaultRecipients;
+};
+
+// Labelled values in form order for the notification email
+export const toLeadEmailFields = (form: LeadFormConfig, values: Record<string, any>) =>
+  form.fields
+    .filter(field => values[field.name] !== undefined)
+    .map(field => {
+      const value = values[field.name];
+      return {
+        label: field.label,
+        value: typeof value === 'boolean' ? (value ? 'Yes' : 'No')
+          : value instanceof Date ? value.toLocaleString()
+            : String(value),
+      };
+    });
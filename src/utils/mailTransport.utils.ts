@@ -0,0 +1,131 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  from?: string;
+  to?: string | string[]; // Sending fails when empty, as with nodemailer
+  replyTo?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface SentMail extends MailMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+// Every mail backend implements this interface so emails do not depend on a provider
+export interface MailTransport {
+  name: string;
+  sendMail(message: MailMessage): Promise<SentMail>;
+}
+
+const getDefaultFrom = () => process.env.MAIL_FROM || process.env.EMAIL_USER;
+
+const requireRecipients = (message: MailMessage) => {
+  if (!message.to || (Array.isArray(message.to) && message.to.length === 0)) {
+    throw new Error('No recipients defined');
+  }
+};
+
+const toSentMail = (message: MailMessage): SentMail => ({
+  ...message,
+  from: message.from || getDefaultFrom(),
+  messageId: `<${crypto.randomUUID()}@local>`,
+  sentAt: new Date(),
+});
+
+// SMTP relay (SES, Postmark, Mailhog...) configured with SMTP_HOST,
+// falling back to Gmail with EMAIL_USER/EMAIL_PASS when no host is set
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = process.env.SMTP_HOST
+    ? nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true', // true for port 465, STARTTLS otherwise
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined, // Mailhog and similar accept mail without auth
+    })
+    : nodemailer.createTransport({
+      service: 'gmail',
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASS, // Use app password for Gmail
+      },
+    });
+
+  return {
+    name: 'smtp',
+
+    sendMail: async (message) => {
+      requireRecipients(message);
+      const info = await transporter.sendMail({ ...message, from: message.from || getDefaultFrom() });
+      return { ...toSentMail(message), messageId: info.messageId };
+    },
+  };
+};
+
+// Write each message to a JSON file instead of sending it, for development and CI
+export const createFileTransport = (
+  directory: string = process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail')
+): MailTransport => {
+  return {
+    name: 'file',
+
+    sendMail: async (message) => {
+      requireRecipients(message);
+      const sent = toSentMail(message);
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${sent.sentAt.getTime()}-${crypto.randomBytes(4).toString('hex')}.json`;
+      await fs.writeFile(path.join(directory, fileName), JSON.stringify(sent, null, 2));
+      return sent;
+    },
+  };
+};
+
+// Keep messages in memory so tests can assert on what was sent
+export const createMemoryTransport = (): MailTransport & { messages: SentMail[]; clear(): void } => {
+  const messages: SentMail[] = [];
+
+  return {
+    name: 'memory',
+    messages,
+
+    sendMail: async (message) => {
+      requireRecipients(message);
+      const sent = toSentMail(message);
+      messages.push(sent);
+      return sent;
+    },
+
+    clear: () => {
+      messages.length = 0;
+    },
+  };
+};
+
+let transport: MailTransport | undefined;
+
+// Replace the transport, e.g. with a memory transport in tests
+export const setMailTransport = (mailTransport: MailTransport) => {
+  transport = mailTransport;
+};
+
+// Get the transport selected by MAIL_TRANSPORT (smtp, file or memory), defaulting to smtp
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'smtp';
+    if (name === 'file') transport = createFileTransport();
+    else if (name === 'memory') transport = createMemoryTransport();
+    else {
+      if (name !== 'smtp') console.warn(`Unknown MAIL_TRANSPORT "${name}", using smtp`);
+      transport = createSmtpTransport();
+    }
+  }
+  return transport;
+};
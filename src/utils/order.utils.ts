@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import { ObjectId } from "mongodb";
+import { isValidObjectId } from "mongoose";
+import validator from "validator";
+import Order, { IOrder, IOrderDeliverable, EOrderStatus, canTransitionOrderStatus } from "@/models/order.model";
+import { IUser } from "@/models/user.model";
+import { OrderFormData } from "@/utils/email.utils";
+import { roundCurrency } from "@/utils/pricing.utils";
+
+// Move an order to a new status and record it in the status history
+// Returns false (and leaves the order untouched) if the transition is not allowed
+export const transitionOrderStatus = (
+  order: IOrder,
+  status: EOrderStatus,
+  changedBy?: ObjectId,
+  note?: string
+): boolean => {
+  if (!canTransitionOrderStatus(order.status, status)) {
+    return false;
+  }
+
+  order.status = status;
+  order.statusHistory.push({
+    status,
+    changedAt: new Date(),
+    changedBy,
+    note,
+  });
+
+  return true;
+};
+
+// Map a stored order back to the shape used by the email and WhatsApp helpers
+export const toOrderFormData = (order: IOrder): OrderFormData => ({
+  email: order.customer.email,
+  countryCode: order.customer.countryCode,
+  phoneNumber: order.customer.phoneNumber,
+  subjectCode: order.subjectCode,
+  description: order.description,
+  deadline: order.deadline,
+  deadlineTimezone: order.deadlineTimezone,
+  pages: String(order.pages),
+  academicLevel: order.academicLevel,
+  acceptTerms: order.acceptTerms,
+  attachments: order.attachments,
+  orderId: order.orderId,
+  quote: order.quote ? { total: order.quote.total, currency: order.quote.currency } : undefined,
+  discount: order.quote?.discount
+    ? { code: order.quote.discount.code, amount: order.quote.discount.amount }
+    : undefined,
+});
+
+// Customer facing view of a deliverable - the Cloudinary id and uploader stay internal
+export const toPublicDeliverable = (deliverable: IOrderDeliverable) => ({
+  _id: deliverable._id,
+  kind: deliverable.kind,
+  version: deliverable.version,
+  name: deliverable.name,
+  size: deliverable.size,
+  type: deliverable.type,
+  note: deliverable.note,
+  uploadedAt: deliverable.uploadedAt,
+});
+
+// Customer facing view of an order - no internal notes, staff ids or contact details
+export const toTrackedOrder = (order: IOrder) => ({
+  orderId: order.orderId,
+  status: order.status,
+  statusHistory: order.statusHistory.map(change => ({
+    status: change.status,
+    changedAt: change.changedAt,
+  })),
+  subjectCode: order.subjectCode,
+  description: order.description,
+  pages: order.pages,
+  academicLevel: order.academicLevel,
+  deadline: order.deadline,
+  deadlineAt: order.deadlineAt,
+  quote: order.quote ? {
+    total: order.quote.total,
+    currency: order.quote.currency,
+  } : undefined,
+  amountPaid: order.amountPaid,
+  balance: order.quote ? Math.max(0, roundCurrency(order.quote.total - order.amountPaid)) : undefined,
+  attachments: order.attachments,
+  deliverables: order.deliverables.map(toPublicDeliverable),
+  deliveredAt: order.deliveredAt,
+  createdAt: order.createdAt,
+  updatedAt: order.updatedAt,
+});
+
+export interface AdminOrderQuery {
+  status?: string;
+  subjectCode?: string;
+  email?: string;
+  writerId?: string;
+  overdue?: string;
+  search?: string;
+  deadlineFrom?: string;
+  deadlineTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+// Escape user input before using it inside a $regex
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Build a $gte/$lte range from two date strings, ignoring values that are not valid dates
+const buildDateRange = (from?: string, to?: string): { $gte?: Date; $lte?: Date } | undefined => {
+  const range: { $gte?: Date; $lte?: Date } = {};
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+
+  if (fromDate && !isNaN(fromDate.getTime())) range.$gte = fromDate;
+  if (toDate && !isNaN(toDate.getTime())) range.$lte = toDate;
+
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+// Build the Mongo filter shared by the admin order list and other admin order views
+export const buildAdminOrderFilter = (params: AdminOrderQuery): any => {
+  const query: any = {};
+
+  // Status filter, accepts a comma separated list
+  if (params.status) {
+    const statuses = params.status
+      .split(',')
+      .map(status => status.trim())
+      .filter(status => Object.values(EOrderStatus).includes(status as EOrderStatus));
+    if (statuses.length > 0) {
+      query.status = { $in: statuses };
+    }
+  }
+
+  // Subject filter
+  if (params.subjectCode) {
+    query.subjectCode = { $regex: `^${escapeRegex(params.subjectCode)}$`, $options: "i" };
+  }
+
+  // Customer email filter
+  if (params.email) {
+    query["customer.email"] = params.email.toLowerCase().trim();
+  }
+
+  // Assigned writer filter
+  if (params.writerId && isValidObjectId(params.writerId)) {
+    query["assignment.writer"] = params.writerId;
+  }
+
+  // Overdue filter
+  if (params.overdue !== undefined) {
+    query.overdue = params.overdue === "true";
+  }
+
+  // Deadline window
+  const deadlineRange = buildDateRange(params.deadlineFrom, params.deadlineTo);
+  if (deadlineRange) query.deadlineAt = deadlineRange;
+
+  // Creation date window
+  const createdRange = buildDateRange(params.createdFrom, params.createdTo);
+  if (createdRange) query.createdAt = createdRange;
+
+  // Search in order id, customer email, subject or description
+  if (params.search) {
+    const search = escapeRegex(params.search);
+    query.$or = [
+      { orderId: { $regex: search, $options: "i" } },
+      { "customer.email": { $regex: search, $options: "i" } },
+      { subjectCode: { $regex: search, $options: "i" } },
+      { description: { $regex: search, $options: "i" } },
+    ];
+  }
+
+  return query;
+};
+
+// Hash of the details that identify an order submission, ignoring case and whitespace differences
+export const getSubmissionFingerprint = (data: {
+  email?: string;
+  subjectCode?: string;
+  description?: string;
+  deadline?: string;
+  pages?: string | number;
+}): string => {
+  const normalise = (value: unknown) => String(value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+  return crypto
+    .createHash("sha256")
+    .update([data.email, data.subjectCode, data.description, data.deadline, data.pages].map(normalise).join("|"))
+    .digest("hex");
+};
+
+// Order emails are stored normalised by the order form validator, account emails as entered
+const getCustomerEmailVariants = (email: string): string[] => {
+  const variants = new Set([email.trim().toLowerCase()]);
+  const normalised = validator.normalizeEmail(email.trim());
+  if (normalised) variants.add(normalised);
+  return [...variants];
+};
+
+// Attach guest orders placed with the account's email to the account
+// Only for verified accounts, otherwise anyone could claim orders by registering with someone else's email
+export const linkGuestOrdersToUser = async (user: IUser): Promise<number> => {
+  if (!user.verified) return 0;
+
+  const result = await Order.updateMany(
+    { user: { $exists: false }, "customer.email": { $in: getCustomerEmailVariants(user.email) } },
+    { $set: { user: user._id } }
+  );
+  return result.modifiedCount;
+};
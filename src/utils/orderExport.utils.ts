@@ -0,0 +1,103 @@
+import { Writable } from "stream";
+import ExcelJS from "exceljs";
+
+// Orders are read with .lean() and the writer populated, so fields are plain values
+export type ExportOrder = Record<string, any>;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  numFmt?: string; // Excel number format for the XLSX export
+  value: (order: ExportOrder) => string | number | Date | undefined;
+}
+
+const DATE_FORMAT = "yyyy-mm-dd hh:mm";
+const MONEY_FORMAT = "0.00";
+
+// Columns shared by the CSV and XLSX exports
+export const ORDER_EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "Order ID", width: 22, value: order => order.orderId },
+  { header: "Created At", width: 20, numFmt: DATE_FORMAT, value: order => order.createdAt },
+  { header: "Customer Email", width: 30, value: order => order.customer?.email },
+  { header: "Customer Phone", width: 18, value: order => order.customer ? `${order.customer.countryCode} ${order.customer.phoneNumber}` : undefined },
+  { header: "Subject", width: 20, value: order => order.subjectCode },
+  { header: "Pages", width: 8, value: order => order.pages },
+  { header: "Academic Level", width: 16, value: order => order.academicLevel },
+  { header: "Deadline", width: 20, numFmt: DATE_FORMAT, value: order => order.deadlineAt },
+  { header: "Currency", width: 10, value: order => order.quote?.currency },
+  { header: "Quoted Total", width: 14, numFmt: MONEY_FORMAT, value: order => order.quote?.total },
+  { header: "Discount Code", width: 16, value: order => order.quote?.discount?.code },
+  { header: "Discount Amount", width: 16, numFmt: MONEY_FORMAT, value: order => order.quote?.discount?.amount },
+  { header: "Amount Paid", width: 14, numFmt: MONEY_FORMAT, value: order => order.amountPaid },
+  { header: "Amount Refunded", width: 16, numFmt: MONEY_FORMAT, value: order => order.amountRefunded },
+  { header: "Status", width: 14, value: order => order.status },
+  { header: "Writer", width: 20, value: order => order.assignment?.writer?.name },
+  { header: "Writer Email", width: 30, value: order => order.assignment?.writer?.email },
+  { header: "Delivered At", width: 20, numFmt: DATE_FORMAT, value: order => order.deliveredAt },
+  { header: "Updated At", width: 20, numFmt: DATE_FORMAT, value: order => order.updatedAt },
+];
+
+// Quote a CSV field, and stop spreadsheet apps from running values that look like formulas
+const toCsvField = (value: string | number | Date | undefined): string => {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "number") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values: (string | number | Date | undefined)[]) => values.map(toCsvField).join(",") + "\r\n";
+
+// Write and wait when the client is slower than the database
+// A client that disconnects while we wait ends the wait too, the caller then sees stream.destroyed and stops
+const write = async (stream: Writable, chunk: string) => {
+  if (stream.destroyed || stream.write(chunk) || stream.destroyed) return;
+
+  await new Promise<void>((resolve) => {
+    const done = () => {
+      stream.off("drain", done);
+      stream.off("close", done);
+      stream.off("error", done);
+      resolve();
+    };
+    stream.on("drain", done);
+    stream.on("close", done);
+    stream.on("error", done);
+  });
+};
+
+// Stream orders as CSV, one row at a time
+export const writeOrdersCsv = async (orders: AsyncIterable<ExportOrder>, stream: Writable) => {
+  // Byte order mark so Excel opens the file as UTF-8
+  await write(stream, "\uFEFF" + toCsvLine(ORDER_EXPORT_COLUMNS.map(column => column.header)));
+
+  for await (const order of orders) {
+    if (stream.destroyed) break;
+    await write(stream, toCsvLine(ORDER_EXPORT_COLUMNS.map(column => column.value(order))));
+  }
+
+  stream.end();
+};
+
+// Stream orders as XLSX, committing each row so it is not kept in memory
+export const writeOrdersXlsx = async (orders: AsyncIterable<ExportOrder>, stream: Writable) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream, useStyles: true, useSharedStrings: false });
+  const worksheet = workbook.addWorksheet("Orders");
+
+  worksheet.columns = ORDER_EXPORT_COLUMNS.map(column => ({
+    header: column.header,
+    width: column.width,
+    style: column.numFmt ? { numFmt: column.numFmt } : {},
+  }));
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.getRow(1).commit();
+
+  for await (const order of orders) {
+    if (stream.destroyed) break;
+    worksheet.addRow(ORDER_EXPORT_COLUMNS.map(column => column.value(order) ?? null)).commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+
+export interface CheckoutSessionRequest {
+  reference: string; // Our payment id, echoed back by the provider
+  orderId: string; // Public order reference shown to the customer
+  amount: number; // In major units, e.g. 12.50
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  url: string;
+}
+
+export type PaymentEventType =
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'checkout.expired'
+  | 'unknown';
+
+export interface PaymentWebhookEvent {
+  eventId: string;
+  type: PaymentEventType;
+  sessionId?: string;
+  providerPaymentId?: string;
+  amount?: number; // In major units
+  currency?: string;
+}
+
+export interface RefundRequest {
+  providerPaymentId: string;
+  amount: number; // In major units
+  currency: string;
+  reason?: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: string;
+}
+
+// Every payment provider implements this interface so the payment flow does not depend on a vendor
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession(request: CheckoutSessionRequest): Promise<CheckoutSession>;
+  // Verifies the signature and normalises the event, returns null if the signature is invalid
+  parseWebhookEvent(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent | null;
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
+
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+const fromMinorUnits = (amount: number) => amount / 100;
+
+const signPayload = (secret: string, payload: string) =>
+  crypto.createHmac('sha256', secret).update(payload, 'utf8').digest('hex');
+
+const safeCompare = (a: string, b: string) => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+const getHeader = (headers: Record<string, string | string[] | undefined>, name: string) => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Stripe Checkout provider, talks to the Stripe REST API directly
+export const createStripeProvider = (
+  secretKey: string = process.env.STRIPE_SECRET_KEY || '',
+  webhookSecret: string = process.env.STRIPE_WEBHOOK_SECRET || '',
+  toleranceSeconds: number = 300
+): PaymentProvider => {
+  const stripeRequest = async (path: string, params: Record<string, string>) => {
+    const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+    const data: any = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error?.message || `Stripe request failed with status ${response.status}`);
+    }
+    return data;
+  };
+
+  return {
+    name: 'stripe',
+
+    createCheckoutSession: async (request) => {
+      const params: Record<string, string> = {
+        mode: 'payment',
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        client_reference_id: request.reference,
+        'line_items[0][quantity]': '1',
+        'line_items[0][price_data][currency]': request.currency.toLowerCase(),
+        'line_items[0][price_data][unit_amount]': String(toMinorUnits(request.amount)),
+        'line_items[0][price_data][product_data][name]': request.description,
+        'metadata[orderId]': request.orderId,
+        'metadata[reference]': request.reference,
+      };
+      if (request.customerEmail) {
+        params.customer_email = request.customerEmail;
+      }
+
+      const session = await stripeRequest('checkout/sessions', params);
+      return { sessionId: session.id, url: session.url };
+    },
+
+    parseWebhookEvent: (rawBody, headers) => {
+      const signatureHeader = getHeader(headers, 'stripe-signature');
+      if (!signatureHeader || !webhookSecret) {
+        return null;
+      }
+
+      // Header format: t=timestamp,v1=signature[,v1=signature]
+      const parts = signatureHeader.split(',').map(part => part.split('='));
+      const timestamp = parts.find(([key]) => key === 't')?.[1];
+      const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) {
+        return null;
+      }
+
+      const expected = signPayload(webhookSecret, `${timestamp}.${rawBody.toString('utf8')}`);
+      // Reject bad signatures and replays outside the tolerance window
+      if (!signatures.some(signature => safeCompare(signature, expected))) {
+        return null;
+      }
+      if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > toleranceSeconds) {
+        return null;
+      }
+
+      const event = JSON.parse(rawBody.toString('utf8'));
+      const session = event.data?.object || {};
+      const typeMap: Record<string, PaymentEventType> = {
+        'checkout.session.completed': session.payment_status === 'paid' ? 'payment.succeeded' : 'unknown',
+        'checkout.session.async_payment_succeeded': 'payment.succeeded',
+        'checkout.session.async_payment_failed': 'payment.failed',
+        'checkout.session.expired': 'checkout.expired',
+      };
+
+      return {
+        eventId: event.id,
+        type: typeMap[event.type] || 'unknown',
+        sessionId: session.id,
+        providerPaymentId: session.payment_intent,
+        amount: typeof session.amount_total === 'number' ? fromMinorUnits(session.amount_total) : undefined,
+        currency: session.currency?.toUpperCase(),
+      };
+    },
+
+    refund: async (request) => {
+      const params: Record<string, string> = {
+        payment_intent: request.providerPaymentId,
+        amount: String(toMinorUnits(request.amount)),
+      };
+      if (request.reason) {
+        params['metadata[reason]'] = request.reason;
+      }
+
+      const refund = await stripeRequest('refunds', params);
+      return { refundId: refund.id, status: refund.status };
+    },
+  };
+};
+
+// Local provider for development and tests - no network calls, webhooks are signed with a shared secret
+// Without a secret every webhook is rejected
+export const createFakeProvider = (
+  webhookSecret: string = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || ''
+): PaymentProvider & { signWebhook(payload: string): string } => {
+  return {
+    name: 'fake',
+
+    createCheckoutSession: async (request) => {
+      const sessionId = `fake_cs_${crypto.randomBytes(12).toString('hex')}`;
+      const clientUrl = process.env.CLIENT_URL || 'http://localhost:3000';
+      return {
+        sessionId,
+        url: `${clientUrl}/payments/fake-checkout?session=${sessionId}&amount=${request.amount}&currency=${request.currency}`,
+      };
+    },
+
+    parseWebhookEvent: (rawBody, headers) => {
+      const signature = getHeader(headers, 'x-fake-signature');
+      if (!signature || !webhookSecret || !safeCompare(signature, signPayload(webhookSecret, rawBody.toString('utf8')))) {
+        return null;
+      }
+
+      const event = JSON.parse(rawBody.toString('utf8'));
+      return {
+        eventId: event.id,
+        type: event.type,
+        sessionId: event.sessionId,
+        providerPaymentId: event.paymentId,
+        amount: event.amount,
+        currency: event.currency,
+      };
+    },
+
+    refund: async () => ({
+      refundId: `fake_re_${crypto.randomBytes(12).toString('hex')}`,
+      status: 'succeeded',
+    }),
+
+    signWebhook: (payload: string) => {
+      if (!webhookSecret) throw new Error('FAKE_PAYMENT_WEBHOOK_SECRET is not set');
+      return signPayload(webhookSecret, payload);
+    },
+  };
+};
+
+const providers = new Map<string, PaymentProvider>();
+
+// The fake provider lets anyone sign their own payments, so it never exists outside development and tests
+const FAKE_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+
+// Register (or replace) a provider, e.g. to inject a stub in tests
+export const registerPaymentProvider = (provider: PaymentProvider) => {
+  providers.set(provider.name, provider);
+};
+
+// Get a provider by name, defaulting to PAYMENT_PROVIDER (stripe when a key is configured)
+// Undefined when the provider is not configured in this environment
+export const getPaymentProvider = (name?: string): PaymentProvider | undefined => {
+  const providerName = name || process.env.PAYMENT_PROVIDER || (process.env.STRIPE_SECRET_KEY ? 'stripe' : undefined);
+  if (!providerName) return undefined;
+
+  if (!providers.has(providerName)) {
+    if (providerName === 'stripe' && process.env.STRIPE_SECRET_KEY) {
+      registerPaymentProvider(createStripeProvider());
+    }
+    if (providerName === 'fake' && FAKE_PROVIDER_ENVIRONMENTS.includes(process.env.NODE_ENV || '')) {
+      registerPaymentProvider(createFakeProvider());
+    }
+  }
+
+  return providers.get(providerName);
+};
@@ -0,0 +1,68 @@
+import { pricingConfig, PricingConfig } from "@/config/pricing.config";
+import { IOrderQuote } from "@/models/order.model";
+
+export interface QuoteInput {
+  pages: number;
+  deadlineAt?: Date;
+  academicLevel?: string;
+  subjectCode?: string;
+}
+
+export type CalculatedQuote = Omit<IOrderQuote, 'overriddenBy' | 'overrideReason'>;
+
+// Round to 2 decimal places for currency amounts
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Find the urgency multiplier for the number of hours left until the deadline
+const getUrgencyMultiplier = (hoursToDeadline: number | undefined, config: PricingConfig): number => {
+  if (hoursToDeadline === undefined) return 1;
+  const tier = config.urgencyTiers.find(tier => hoursToDeadline <= tier.maxHours);
+  return tier ? tier.multiplier : 1;
+};
+
+// Subject surcharges are keyed by subject name, the subject code only has to contain it
+const getSubjectSurcharge = (subjectCode: string | undefined, config: PricingConfig): number => {
+  if (!subjectCode) return 0;
+  const code = subjectCode.toLowerCase();
+  const surcharges = Object.entries(config.subjectSurcharges)
+    .filter(([subject]) => code.includes(subject.toLowerCase()))
+    .map(([, surcharge]) => surcharge);
+  return surcharges.length > 0 ? Math.max(...surcharges) : 0;
+};
+
+// Calculate the price for an order
+export const calculateQuote = (
+  input: QuoteInput,
+  config: PricingConfig = pricingConfig,
+  now: Date = new Date()
+): CalculatedQuote => {
+  const hoursToDeadline = input.deadlineAt
+    ? Math.max(0, roundCurrency((input.deadlineAt.getTime() - now.getTime()) / (60 * 60 * 1000)))
+    : undefined;
+
+  const urgencyMultiplier = getUrgencyMultiplier(hoursToDeadline, config);
+  const academicLevelSurcharge = input.academicLevel
+    ? config.academicLevelSurcharges[input.academicLevel] || 0
+    : 0;
+  const subjectSurcharge = getSubjectSurcharge(input.subjectCode, config);
+
+  const base = input.pages * config.basePerPage * urgencyMultiplier;
+  const total = roundCurrency(Math.max(
+    base * (1 + academicLevelSurcharge + subjectSurcharge),
+    config.minimumCharge
+  ));
+
+  return {
+    currency: config.currency,
+    pages: input.pages,
+    basePerPage: config.basePerPage,
+    hoursToDeadline,
+    urgencyMultiplier,
+    academicLevelSurcharge,
+    subjectSurcharge,
+    calculatedTotal: total,
+    total,
+    overridden: false,
+    calculatedAt: now,
+  };
+};
@@ -0,0 +1,45 @@
+import RateLimit from "@/models/rateLimit.model";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+// Count one hit against a key, stored in Mongo so limits hold across server instances
+export const consumeRateLimit = async (
+  key: string,
+  limit: number,
+  windowSeconds: number
+): Promise<RateLimitResult> => {
+  const now = new Date();
+
+  const toResult = (count: number, expiresAt: Date): RateLimitResult => ({
+    allowed: count <= limit,
+    remaining: Math.max(0, limit - count),
+    retryAfterSeconds: Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / 1000)),
+  });
+
+  // Count against the current window if there is one
+  const current = await RateLimit.findOneAndUpdate(
+    { key, expiresAt: { $gt: now } },
+    { $inc: { count: 1 } },
+    { new: true }
+  );
+  if (current) return toResult(current.count, current.expiresAt);
+
+  // Otherwise start a new window (TTL cleanup may lag behind, so reset expired documents too)
+  try {
+    const started = await RateLimit.findOneAndUpdate(
+      { key },
+      { count: 1, expiresAt: new Date(now.getTime() + windowSeconds * 1000) },
+      { upsert: true, new: true }
+    );
+    return toResult(started.count, started.expiresAt);
+  } catch (error: any) {
+    // Another request created the window at the same time
+    if (error.code !== 11000) throw error;
+    const retried = await RateLimit.findOneAndUpdate({ key }, { $inc: { count: 1 } }, { new: true });
+    return toResult(retried?.count || 1, retried?.expiresAt || now);
+  }
+};
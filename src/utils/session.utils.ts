@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { ObjectId } from 'mongodb';
+import Session, { ISession, ESessionRevokedReason } from '@/models/session.model';
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10);
+// Two tabs refreshing at the same moment present the same token, the slower one is not treated as reuse
+const REUSE_GRACE_SECONDS = parseInt(process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS || '10', 10);
+// Rotated secrets remembered per session to recognise reuse
+const USED_TOKEN_HISTORY = 50;
+
+export type RefreshResult =
+  | { status: 'rotated'; session: ISession; refreshToken: string }
+  | { status: 'invalid' | 'expired' | 'revoked' | 'reused' | 'concurrent' };
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+const getSessionExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Device details shown in the session list
+const getClientDetails = (req: Request) => ({
+  userAgent: (req.headers['user-agent'] || 'unknown').substring(0, 300),
+  ip: req.ip || req.socket?.remoteAddress || 'unknown',
+});
+
+// Refresh tokens look like "<sessionId>.<secret>", only a hash of the secret is stored
+const createSecret = () => crypto.randomBytes(32).toString('base64url');
+
+const parseRefreshToken = (token: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret, ...rest] = token.split('.');
+  if (rest.length > 0 || !secret || !ObjectId.isValid(sessionId)) return null;
+  return { sessionId, secret };
+};
+
+export const getRefreshTokenTtlMs = () => REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+// Start a session for a login on a device
+export const createSession = async (userId: any, req: Request) => {
+  const secret = createSecret();
+  const session = await Session.create({
+    user: userId,
+    refreshTokenHash: hashSecret(secret),
+    lastUsedAt: new Date(),
+    expiresAt: getSessionExpiry(),
+    ...getClientDetails(req),
+  });
+
+  return { session, refreshToken: `${session._id}.${secret}` };
+};
+
+// Swap a refresh token for a new one, each token can only be used once
+// Presenting an already rotated token revokes the whole session, since either the client or an attacker holds a stolen copy
+export const rotateRefreshToken = async (token: string, req: Request): Promise<RefreshResult> => {
+  const parsed = parseRefreshToken(token);
+  if (!parsed) return { status: 'invalid' };
+
+  const now = new Date();
+  const presentedHash = hashSecret(parsed.secret);
+  const secret = createSecret();
+
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: parsed.sessionId,
+      refreshTokenHash: presentedHash,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    },
+    {
+      $set: {
+        refreshTokenHash: hashSecret(secret),
+        previousTokenHash: presentedHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+        expiresAt: getSessionExpiry(),
+        ...getClientDetails(req),
+      },
+      $push: { usedTokenHashes: { $each: [presentedHash], $slice: -USED_TOKEN_HISTORY } },
+    },
+    { new: true }
+  );
+  if (session) {
+    return { status: 'rotated', session, refreshToken: `${session._id}.${secret}` };
+  }
+
+  // Work out why the token was not accepted
+  const existing = await Session.findById(parsed.sessionId);
+  if (!existing) return { status: 'invalid' };
+  if (existing.revokedAt) return { status: 'revoked' };
+  if (existing.expiresAt <= now) return { status: 'expired' };
+
+  const rotatedRecently = existing.rotatedAt && now.getTime() - existing.rotatedAt.getTime() <= REUSE_GRACE_SECONDS * 1000;
+  if (existing.previousTokenHash === presentedHash && rotatedRecently) {
+    return { status: 'concurrent' };
+  }
+
+  // A secret this session never issued is just a bad token, it must not let anyone who knows the session id log the user out
+  if (!existing.usedTokenHashes?.includes(presentedHash)) {
+    return { status: 'invalid' };
+  }
+
+  await revokeSession(existing._id, ESessionRevokedReason.REUSE_DETECTED);
+  console.warn(`Refresh token reuse detected, revoked session ${existing._id} of user ${existing.user}`);
+  return { status: 'reused' };
+};
+
+// End a session, its refresh token stops working straight away
+export const revokeSession = async (sessionId: any, reason: ESessionRevokedReason) => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+// Revoke the session behind a refresh token, used on logout
+export const revokeRefreshToken = async (token: string, reason: ESessionRevokedReason) => {
+  const parsed = parseRefreshToken(token);
+  if (!parsed) return;
+  await Session.updateOne(
+    { _id: parsed.sessionId, refreshTokenHash: hashSecret(parsed.secret), revokedAt: { $exists: false } },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+// Only write lastUsedAt once in a while, access checks happen on every request
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const activeSessionFilter = () => ({
+  revokedAt: { $exists: false },
+  expiresAt: { $gt: new Date() },
+});
+
+// The session an access token was issued for, null once it is revoked or expired
+export const getActiveSession = async (sessionId: string, userId: string) => {
+  if (!ObjectId.isValid(sessionId)) return null;
+  return Session.findOne({ _id: sessionId, user: userId, ...activeSessionFilter() });
+};
+
+export const touchSession = (session: ISession) => {
+  if (Date.now() - session.lastUsedAt.getTime() < TOUCH_INTERVAL_MS) return;
+  Session.updateOne({ _id: session._id }, { lastUsedAt: new Date() }).catch((error) => {
+    console.error('Error updating session last used time:', error);
+  });
+};
+
+export const getActiveSessions = async (userId: any) => {
+  return Session.find({ user: userId, ...activeSessionFilter() })
+    .select('-refreshTokenHash -previousTokenHash')
+    .sort({ lastUsedAt: -1 })
+    .lean();
+};
+
+// Revoke every session of a user, optionally keeping the one making the request
+export const revokeUserSessions = async (userId: any, reason: ESessionRevokedReason, exceptSessionId?: string) => {
+  const filter: any = { user: userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const result = await Session.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
+
+// Rough "Browser on OS" label for the session list
+export const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || userAgent.substring(0, 50);
+};
+
+// Shape returned by the session list endpoints, never includes token hashes
+export const toSessionSummary = (session: any, currentSessionId?: string) => ({
+  id: session._id,
+  device: describeUserAgent(session.userAgent),
+  userAgent: session.userAgent,
+  ip: session.ip,
+  lastUsedAt: session.lastUsedAt,
+  createdAt: session.createdAt,
+  expiresAt: session.expiresAt,
+  current: currentSessionId !== undefined && session._id.toString() === currentSessionId,
+});
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import Setting from '@/models/setting.model';
+
+// Every setting with its default, a key only gets a document once a super admin changes it
+export const defaultSettings = {
+  // Users invited by an admin can log in as soon as they accept the invite, otherwise a super admin approves them
+  autoApproveInvitedUsers: false,
+  // Admins and super admins can not use admin routes until they set up two-factor authentication
+  requireAdminTwoFactor: false,
+};
+
+export type Settings = typeof defaultSettings;
+export type SettingKey = keyof Settings;
+
+export const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(defaultSettings, key);
+
+// Stored value of a setting, falls back to the default without a database or on a lookup error
+export const getSetting = async <K extends SettingKey>(key: K): Promise<Settings[K]> => {
+  if (mongoose.connection.readyState !== 1) {
+    return defaultSettings[key];
+  }
+
+  try {
+    const setting = await Setting.findOne({ key }).lean();
+    return setting && setting.value !== undefined ? setting.value : defaultSettings[key];
+  } catch (error) {
+    console.error(`Error loading setting ${key}:`, error);
+    return defaultSettings[key];
+  }
+};
+
+// Stored value of a security setting, errors reach the caller instead of falling back to a permissive default
+export const getRequiredSetting = async <K extends SettingKey>(key: K): Promise<Settings[K]> => {
+  if (mongoose.connection.readyState !== 1) {
+    throw new Error(`Setting ${key} can not be loaded without a database connection`);
+  }
+
+  const setting = await Setting.findOne({ key }).lean();
+  return setting && setting.value !== undefined ? setting.value : defaultSettings[key];
+};
+
+// All settings with stored values merged over the defaults
+export const getAllSettings = async (): Promise<Settings> => {
+  const stored = await Setting.find({ key: { $in: Object.keys(defaultSettings) } }).lean();
+  return stored.reduce(
+    (settings, setting) => ({ ...settings, [setting.key]: setting.value }),
+    { ...defaultSettings }
+  );
+};
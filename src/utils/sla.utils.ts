@@ -0,0 +1,95 @@
+import Order, { IOrder, EOrderStatus, EAssignmentStatus } from '@/models/order.model';
+import User from '@/models/user.model';
+import { sendDeadlineAlertEmail } from '@/utils/email.utils';
+import { toOrderFormData } from '@/utils/order.utils';
+
+// Orders whose deadline still matters
+const OPEN_STATUSES = [EOrderStatus.RECEIVED, EOrderStatus.QUOTED, EOrderStatus.PAID, EOrderStatus.IN_PROGRESS];
+
+// Hours before the deadline at which alerts go out, largest first
+export const getAlertThresholds = (): number[] =>
+  (process.env.SLA_ALERT_HOURS || '48,24,6')
+    .split(',')
+    .map(value => parseInt(value.trim(), 10))
+    .filter(value => !isNaN(value) && value > 0)
+    .sort((a, b) => b - a);
+
+// Admin mailbox plus the writer working on the order, if any
+const getAlertRecipients = async (order: IOrder): Promise<string[]> => {
+  const recipients = [process.env.NOTIFICATION_EMAIL || process.env.EMAIL_USER || ''];
+
+  if (order.assignment && order.assignment.status !== EAssignmentStatus.DECLINED) {
+    const writer = await User.findById(order.assignment.writer).select('email');
+    if (writer) recipients.push(writer.email);
+  }
+
+  return recipients.filter(Boolean);
+};
+
+// Send due alerts and flag overdue orders
+// Safe to run as often as needed, every alert is only sent once per order
+export const runDeadlineCheck = async (now: Date = new Date()) => {
+  const thresholds = getAlertThresholds();
+  const summary = { alertsSent: 0, newlyOverdue: 0 };
+
+  // Upcoming deadlines inside the widest alert window
+  if (thresholds.length > 0) {
+    const dueSoon = await Order.find({
+      status: { $in: OPEN_STATUSES },
+      deadlineAt: { $gt: now, $lte: new Date(now.getTime() + thresholds[0] * 60 * 60 * 1000) },
+    });
+
+    for (const order of dueSoon) {
+      const hoursLeft = (order.deadlineAt!.getTime() - now.getTime()) / (60 * 60 * 1000);
+      // Smallest threshold the order has crossed, e.g. 20h left crosses 24h
+      const threshold = [...thresholds].reverse().find(value => hoursLeft <= value);
+      if (threshold === undefined || order.deadlineAlertsSent.includes(threshold)) continue;
+
+      const sent = await sendDeadlineAlertEmail(
+        await getAlertRecipients(order),
+        toOrderFormData(order),
+        order.deadlineAt!,
+        threshold
+      );
+      if (!sent) continue;
+
+      // Mark this and all wider thresholds so a late first run does not send a burst of alerts
+      await Order.updateOne(
+        { _id: order._id },
+        { $addToSet: { deadlineAlertsSent: { $each: thresholds.filter(value => value >= threshold) } } }
+      );
+      summary.alertsSent += 1;
+    }
+  }
+
+  // Deadlines that have passed
+  const overdue = await Order.find({
+    status: { $in: OPEN_STATUSES },
+    deadlineAt: { $lte: now },
+    overdue: { $ne: true },
+  });
+
+  for (const order of overdue) {
+    await Order.updateOne({ _id: order._id }, { overdue: true, overdueAt: now });
+    await sendDeadlineAlertEmail(await getAlertRecipients(order), toOrderFormData(order), order.deadlineAt!, null);
+    summary.newlyOverdue += 1;
+  }
+
+  return summary;
+};
+
+let schedulerHandle: NodeJS.Timeout | undefined;
+
+// Run the deadline check on an interval for long running servers
+// Serverless deployments call GET /api/cron/deadlines instead
+export const startDeadlineScheduler = () => {
+  if (schedulerHandle || process.env.SLA_SCHEDULER_ENABLED === 'false') return;
+
+  const intervalMinutes = parseInt(process.env.SLA_CHECK_INTERVAL_MINUTES || '15', 10);
+  schedulerHandle = setInterval(() => {
+    runDeadlineCheck().catch(error => console.error('Error running deadline check:', error));
+  }, intervalMinutes * 60 * 1000);
+  schedulerHandle.unref();
+
+  console.log(`Deadline checker running every ${intervalMinutes} minutes`);
+};
@@ -0,0 +1,117 @@
+import jwt from 'jsonwebtoken';
+import Blog, { EBlogStatus } from '@/models/blog.model';
+import Subscriber, { ISubscriber, ESubscriberStatus } from '@/models/subscriber.model';
+import { sendNewsletterDigestEmail } from '@/utils/email.utils';
+
+type SubscriberTokenPurpose = 'newsletter-confirm' | 'newsletter-unsubscribe';
+
+interface SubscriberTokenPayload {
+  sid: string; // Subscriber document id
+  purpose: SubscriberTokenPurpose;
+}
+
+export interface SubscriberSegment {
+  categories?: string[]; // Blog categories, see BlogCategories
+  subjects?: string[]; // Sample subjects, see Subjects
+}
+
+const getSubscriberSecret = () =>
+  process.env.NEWSLETTER_TOKEN_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+const getClientUrl = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+// Confirmation links expire, unsubscribe links keep working in old emails
+export const createSubscriberToken = (subscriber: ISubscriber, purpose: SubscriberTokenPurpose): string => {
+  const payload: SubscriberTokenPayload = { sid: subscriber._id.toString(), purpose };
+  return purpose === 'newsletter-confirm'
+    ? jwt.sign(payload, getSubscriberSecret(), {
+      expiresIn: `${parseInt(process.env.NEWSLETTER_CONFIRM_TTL_HOURS || '48', 10)}h`,
+    })
+    : jwt.sign(payload, getSubscriberSecret());
+};
+
+// Verify a subscriber token for the given purpose, throws the jsonwebtoken errors when invalid
+export const verifySubscriberToken = (token: string, purpose: SubscriberTokenPurpose): SubscriberTokenPayload => {
+  const decoded = jwt.verify(token, getSubscriberSecret()) as SubscriberTokenPayload;
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+  return decoded;
+};
+
+// Client page that confirms the subscription
+export const getConfirmUrl = (subscriber: ISubscriber): string =>
+  `${getClientUrl()}/newsletter/confirm/${createSubscriberToken(subscriber, 'newsletter-confirm')}`;
+
+// Client page for the unsubscribe link in the email body, and the API endpoint
+// mail clients call for one-click unsubscribe (RFC 8058 List-Unsubscribe-Post)
+export const getUnsubscribeUrls = (subscriber: ISubscriber) => {
+  const token = createSubscriberToken(subscriber, 'newsletter-unsubscribe');
+  const apiUrl = process.env.API_URL || `http://localhost:${process.env.PORT || 8080}`;
+  return {
+    page: `${getClientUrl()}/newsletter/unsubscribe/${token}`,
+    oneClick: `${apiUrl}/api/newsletter/unsubscribe/${token}`,
+  };
+};
+
+// Subscribed readers in a segment, readers without any preferences are in every segment
+export const buildSegmentQuery = (segment: SubscriberSegment) => {
+  const query: any = { status: ESubscriberStatus.SUBSCRIBED };
+
+  const interests: any[] = [];
+  if (segment.categories?.length) interests.push({ categories: { $in: segment.categories } });
+  if (segment.subjects?.length) interests.push({ subjects: { $in: segment.subjects } });
+
+  if (interests.length > 0) {
+    query.$or = [...interests, { categories: { $size: 0 }, subjects: { $size: 0 } }];
+  }
+
+  return query;
+};
+
+// Email blogs published since the given date to a segment
+// Readers who chose categories only get the blogs in those categories
+export const sendBlogDigest = async (segment: SubscriberSegment, since: Date) => {
+  const blogQuery: any = { status: EBlogStatus.PUBLISHED, datePublished: { $gte: since } };
+  if (segment.categories?.length) blogQuery.category = { $in: segment.categories };
+
+  const blogs = await Blog.find(blogQuery)
+    .select('title description slug category datePublished')
+    .sort({ datePublished: -1 })
+    .limit(parseInt(process.env.NEWSLETTER_DIGEST_MAX_BLOGS || '10', 10))
+    .lean();
+
+  const summary = { blogs: blogs.length, queued: 0, skipped: 0, failed: 0 };
+  if (blogs.length === 0) return summary;
+
+  const blogUrlBase = process.env.BLOG_URL_BASE || `${getClientUrl()}/blogs`;
+  const digestBlogs = blogs.map(blog => ({
+    title: blog.title,
+    description: blog.description,
+    category: blog.category,
+    url: `${blogUrlBase}/${blog.slug}`,
+  }));
+
+  const cursor = Subscriber.find(buildSegmentQuery(segment)).cursor();
+  for (let subscriber = await cursor.next(); subscriber; subscriber = await cursor.next()) {
+    const subscriberBlogs = subscriber.categories.length > 0
+      ? digestBlogs.filter(blog => subscriber!.categories.includes(blog.category))
+      : digestBlogs;
+
+    if (subscriberBlogs.length === 0) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    const queued = await sendNewsletterDigestEmail(subscriber, subscriberBlogs, getUnsubscribeUrls(subscriber));
+    if (!queued) {
+      summary.failed += 1;
+      continue;
+    }
+
+    await Subscriber.updateOne({ _id: subscriber._id }, { lastDigestAt: new Date() });
+    summary.queued += 1;
+  }
+
+  return summary;
+};
@@ -0,0 +1,175 @@
+export type TemplateData = Record<string, any>;
+
+export interface EmailTemplateContent {
+  subject: string;
+  html: string;
+  text: string; // Plaintext alternative for clients that do not render HTML
+}
+
+// Built-in template shipped with the code, used until an admin saves their own version
+export interface EmailTemplateDefinition extends EmailTemplateContent {
+  key: string;
+  description: string;
+  sampleData: TemplateData; // Used by the admin preview, also documents the available placeholders
+  superAdminOnly?: boolean; // Carries a login link, only a super admin may save or activate versions
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+interface Scope {
+  value: any;
+  index?: number;
+}
+
+// {{{ raw }}} or {{ name }}, {{#if name}}, {{else}}, {{/if}}, {{#each name}}, {{/each}}
+const TAG_PATTERN = /\{\{\{\s*([\w.@]+)\s*\}\}\}|\{\{\s*(#if|#each|else|\/if|\/each)?\s*([\w.@]*)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+// Parse a template into a tree, throws an Error describing the problem when the syntax is invalid
+export const parseTemplate = (source: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const blocks: { node: BlockNode; inElse: boolean }[] = [];
+
+  const current = (): TemplateNode[] => {
+    const block = blocks[blocks.length - 1];
+    if (!block) return root;
+    if (block.node.type === 'each') return block.node.body;
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index as number;
+    if (index > position) {
+      current().push({ type: 'text', value: source.slice(position, index) });
+    }
+    position = index + match[0].length;
+
+    const [tag, rawPath, keyword, path] = match;
+
+    if (rawPath) {
+      current().push({ type: 'variable', path: rawPath, raw: true });
+      continue;
+    }
+
+    if (!keyword) {
+      if (!path) throw new Error(`Empty tag ${tag}`);
+      current().push({ type: 'variable', path, raw: false });
+      continue;
+    }
+
+    if (keyword === '#if' || keyword === '#each') {
+      if (!path) throw new Error(`${tag} needs a value to check`);
+      const node: BlockNode = keyword === '#if'
+        ? { type: 'if', path, then: [], otherwise: [] }
+        : { type: 'each', path, body: [] };
+      current().push(node);
+      blocks.push({ node, inElse: false });
+      continue;
+    }
+
+    const block = blocks[blocks.length - 1];
+    if (keyword === 'else') {
+      if (!block || block.node.type !== 'if' || block.inElse) throw new Error('{{else}} outside of {{#if}}');
+      block.inElse = true;
+      continue;
+    }
+
+    const expected = keyword === '/if' ? 'if' : 'each';
+    if (!block || block.node.type !== expected) throw new Error(`Unexpected ${tag}`);
+    blocks.pop();
+  }
+
+  if (blocks.length > 0) {
+    throw new Error(`Missing {{/${blocks[blocks.length - 1].node.type}}}`);
+  }
+
+  if (position < source.length) {
+    root.push({ type: 'text', value: source.slice(position) });
+  }
+
+  return root;
+};
+
+// Resolve a dotted path against the innermost scope that has it, e.g. "order.orderId", "this.name", "@index"
+const lookup = (path: string, scopes: Scope[]): any => {
+  const [head, ...rest] = path.split('.');
+  const scope = scopes[scopes.length - 1];
+
+  let value: any;
+  if (head === '@index') {
+    value = scope.index;
+  } else if (head === 'this') {
+    value = scope.value;
+  } else {
+    const owner = [...scopes].reverse().find(item => item.value !== null && typeof item.value === 'object' && head in item.value);
+    value = owner ? owner.value[head] : undefined;
+  }
+
+  for (const key of rest) {
+    if (value === null || value === undefined) return undefined;
+    value = value[key];
+  }
+  return value;
+};
+
+const isTruthy = (value: any) => Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+const renderNodes = (nodes: TemplateNode[], scopes: Scope[], escape: boolean): string =>
+  nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = lookup(node.path, scopes);
+        if (value === undefined || value === null) return '';
+        const text = value instanceof Date ? value.toISOString() : String(value);
+        return escape && !node.raw ? escapeHtml(text) : text;
+      }
+      case 'if':
+        return renderNodes(isTruthy(lookup(node.path, scopes)) ? node.then : node.otherwise, scopes, escape);
+      case 'each': {
+        const items = lookup(node.path, scopes);
+        if (!Array.isArray(items)) return '';
+        return items.map((item, index) => renderNodes(node.body, [...scopes, { value: item, index }], escape)).join('');
+      }
+    }
+  }).join('');
+
+// Render a template string, values are HTML-escaped unless escape is false or they use {{{ }}}
+export const renderTemplateString = (source: string, data: TemplateData, escape: boolean = true): string =>
+  renderNodes(parseTemplate(source), [{ value: data }], escape);
+
+// Render every part of an email template, only the HTML body is escaped
+export const renderTemplate = (template: EmailTemplateContent, data: TemplateData): EmailTemplateContent => ({
+  subject: renderTemplateString(template.subject, data, false).replace(/\s+/g, ' ').trim(),
+  html: renderTemplateString(template.html, data, true),
+  text: renderTemplateString(template.text, data, false).trim(),
+});
+
+// Check all parts of a template parse, returns the first problem found
+export const getTemplateSyntaxError = (template: EmailTemplateContent): string | null => {
+  for (const part of ['subject', 'html', 'text'] as const) {
+    try {
+      parseTemplate(template[part]);
+    } catch (error: any) {
+      return `${part}: ${error.message}`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps, HMAC-SHA1 with 6 digits every 30 seconds
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// 160 bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const getTimeStep = (time: number = Date.now()): number => Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+
+// HOTP (RFC 4226) code for a counter, TOTP uses the time step as the counter
+export const generateHotp = (secret: string, counter: number, digits: number = TOTP_DIGITS): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+
+  return binary.toString().padStart(digits, '0');
+};
+
+export const generateTotp = (secret: string, time: number = Date.now()): string =>
+  generateHotp(secret, getTimeStep(time));
+
+// Time step the code belongs to, or null when it does not match
+// One step either side is accepted to allow for clock drift on the phone
+export const verifyTotp = (secret: string, code: string, time: number = Date.now(), window = 1): number | null => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null;
+
+  const currentStep = getTimeStep(time);
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateHotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+};
+
+// otpauth:// URI that authenticator apps read from the QR code
+export const getOtpAuthUrl = (secret: string, accountName: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,39 @@
+import jwt from 'jsonwebtoken';
+import { IOrder } from '@/models/order.model';
+
+interface TrackingTokenPayload {
+  oid: string; // Order document id
+  v: number; // Must match order.trackingTokenVersion, bumping it revokes older links
+  purpose: 'order-tracking';
+}
+
+const getTrackingSecret = () =>
+  process.env.TRACKING_TOKEN_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+// Create a signed, expiring token that gives access to a single order
+export const createTrackingToken = (order: IOrder): string => {
+  const payload: TrackingTokenPayload = {
+    oid: order._id.toString(),
+    v: order.trackingTokenVersion,
+    purpose: 'order-tracking',
+  };
+
+  return jwt.sign(payload, getTrackingSecret(), {
+    expiresIn: `${parseInt(process.env.TRACKING_LINK_TTL_DAYS || '30', 10)}d`,
+  });
+};
+
+// Verify a tracking token, throws the jsonwebtoken errors (e.g. TokenExpiredError) when invalid
+export const verifyTrackingToken = (token: string): TrackingTokenPayload => {
+  const decoded = jwt.verify(token, getTrackingSecret()) as TrackingTokenPayload;
+  if (decoded.purpose !== 'order-tracking') {
+    throw new jwt.JsonWebTokenError('Invalid token purpose');
+  }
+  return decoded;
+};
+
+// Full link to the customer tracking page
+export const getTrackingUrl = (order: IOrder): string => {
+  const baseUrl = process.env.TRACKING_URL_BASE || `${process.env.CLIENT_URL || 'http://localhost:3000'}/track`;
+  return `${baseUrl}/${createTrackingToken(order)}`;
+};
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import User, { EUserRole, IRecoveryCode, IUser } from '@/models/user.model';
+import { emailConfig } from '@/config/email.config';
+import { getRequiredSetting } from '@/utils/setting.utils';
+import { verifyTotp } from '@/utils/totp.utils';
+
+interface TwoFactorChallengePayload {
+  uid: string;
+  purpose: 'two-factor-login';
+}
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MINUTES = parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_MINUTES || '5', 10);
+
+// Fields hidden from normal user queries that the two-factor checks need
+export const TWO_FACTOR_SELECT =
+  '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.lastUsedStep +twoFactor.recoveryCodes';
+
+// Roles the requireAdminTwoFactor setting applies to
+const ADMIN_ROLES = [EUserRole.ADMIN, EUserRole.SUPER_ADMIN];
+
+export const getTwoFactorIssuer = () => emailConfig.brand.name;
+
+// AES-256-GCM key for TOTP secrets, so a database dump alone does not give out working codes
+const getEncryptionKey = () =>
+  crypto
+    .createHash('sha256')
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+    .digest();
+
+export const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+export const decryptSecret = (value: string): string => {
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared without dashes, spaces or case
+export const hashRecoveryCode = (code: string): string =>
+  crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Fresh set of one-time recovery codes, the plain codes are returned to show the user once
+export const generateRecoveryCodes = (): { codes: string[]; records: IRecoveryCode[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, records: codes.map(code => ({ hash: hashRecoveryCode(code) })) };
+};
+
+// Short lived token that carries a password-checked login over to the code step
+export const createTwoFactorChallenge = (user: IUser): string => {
+  const payload: TwoFactorChallengePayload = { uid: user._id.toString(), purpose: 'two-factor-login' };
+  return jwt.sign(payload, process.env.JWT_SECRET || 'your-secret-key', {
+    expiresIn: CHALLENGE_TTL_MINUTES * 60,
+  });
+};
+
+// User id of a login challenge, null when invalid or expired
+export const verifyTwoFactorChallenge = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as TwoFactorChallengePayload;
+    return decoded.purpose === 'two-factor-login' ? decoded.uid : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Accept an authenticator code that has not been used yet, the step is saved in the same query so a code works once
+export const consumeTotpCode = async (user: IUser, secret: string, code: string): Promise<boolean> => {
+  const step = verifyTotp(decryptSecret(secret), code);
+  if (step === null) return false;
+
+  const result = await User.updateOne(
+    {
+      _id: user._id,
+      $or: [
+        { 'twoFactor.lastUsedStep': { $exists: false } },
+        { 'twoFactor.lastUsedStep': { $lt: step } },
+      ],
+    },
+    { 'twoFactor.lastUsedStep': step }
+  );
+  return result.modifiedCount === 1;
+};
+
+export const consumeRecoveryCode = async (user: IUser, code: string): Promise<boolean> => {
+  const result = await User.updateOne(
+    {
+      _id: user._id,
+      'twoFactor.recoveryCodes': { $elemMatch: { hash: hashRecoveryCode(code), usedAt: { $exists: false } } },
+    },
+    { $set: { 'twoFactor.recoveryCodes.$.usedAt': new Date() } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Check the second factor of a user with two-factor enabled, either an authenticator code or a recovery code
+// The user must be loaded with TWO_FACTOR_SELECT
+export const verifySecondFactor = async (
+  user: IUser,
+  input: { code?: unknown; recoveryCode?: unknown }
+): Promise<'totp' | 'recovery' | null> => {
+  if (!user.twoFactor?.enabled || !user.twoFactor.secret) return null;
+
+  if (typeof input.code === 'string' && input.code) {
+    return (await consumeTotpCode(user, user.twoFactor.secret, input.code)) ? 'totp' : null;
+  }
+  if (typeof input.recoveryCode === 'string' && input.recoveryCode) {
+    return (await consumeRecoveryCode(user, input.recoveryCode)) ? 'recovery' : null;
+  }
+  return null;
+};
+
+// Turn two-factor off and forget the secret and recovery codes
+export const clearTwoFactor = async (userId: any) => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+      $unset: {
+        'twoFactor.secret': '',
+        'twoFactor.pendingSecret': '',
+        'twoFactor.lastUsedStep': '',
+        'twoFactor.enabledAt': '',
+      },
+    }
+  );
+};
+
+export const isTwoFactorPolicyRole = (role: EUserRole) => ADMIN_ROLES.includes(role);
+
+// Whether the policy blocks this user from admin routes until they set up two-factor
+// Throws when the setting can not be loaded, the caller must not let the user through
+export const needsTwoFactorSetup = async (user: IUser): Promise<boolean> => {
+  if (!isTwoFactorPolicyRole(user.role) || user.twoFactor?.enabled) return false;
+  return getRequiredSetting('requireAdminTwoFactor');
+};
@@ -0,0 +1,111 @@
+import jwt from 'jsonwebtoken';
+import { ObjectId } from 'mongodb';
+import UserToken, { EUserTokenPurpose } from '@/models/userToken.model';
+import { IUser } from '@/models/user.model';
+import { sendEmailVerificationEmail, sendPasswordResetEmail, sendUserInvitationEmail } from '@/utils/email.utils';
+
+interface UserTokenPayload {
+  uid: string; // User document id
+  purpose: EUserTokenPurpose;
+  jti: string; // UserToken document id
+}
+
+// How long each kind of link stays valid, in minutes
+const TOKEN_TTL_MINUTES: Record<EUserTokenPurpose, number> = {
+  [EUserTokenPurpose.EMAIL_VERIFICATION]: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '24', 10) * 60,
+  [EUserTokenPurpose.INVITATION]: parseInt(process.env.INVITATION_TTL_HOURS || '72', 10) * 60,
+  // Reset links are short lived, anyone who can read the inbox can take over the account
+  [EUserTokenPurpose.PASSWORD_RESET]: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+};
+
+const getUserTokenSecret = () =>
+  process.env.USER_TOKEN_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+const getClientUrl = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+const getUserTokenTtlHours = (purpose: EUserTokenPurpose) => Math.round(TOKEN_TTL_MINUTES[purpose] / 60);
+
+// Client pages that open the emailed links
+export const getVerifyEmailUrl = (token: string) => `${getClientUrl()}/verify-email/${token}`;
+export const getAcceptInviteUrl = (token: string) => `${getClientUrl()}/accept-invite/${token}`;
+export const getResetPasswordUrl = (token: string) => `${getClientUrl()}/reset-password/${token}`;
+
+// Issue a signed link token, earlier unused tokens for the same purpose stop working
+export const createUserToken = async (userId: any, purpose: EUserTokenPurpose): Promise<string> => {
+  await UserToken.deleteMany({ user: userId, purpose, usedAt: { $exists: false } });
+
+  const ttlMinutes = TOKEN_TTL_MINUTES[purpose];
+  const record = await UserToken.create({
+    user: userId,
+    purpose,
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  });
+
+  const payload: UserTokenPayload = { uid: userId.toString(), purpose, jti: record._id.toString() };
+  return jwt.sign(payload, getUserTokenSecret(), { expiresIn: ttlMinutes * 60 });
+};
+
+// Use up a link token, returns the user id or null when the token is invalid, expired or already used
+export const consumeUserToken = async (token: string, purpose: EUserTokenPurpose): Promise<string | null> => {
+  let payload: UserTokenPayload;
+  try {
+    payload = jwt.verify(token, getUserTokenSecret()) as UserTokenPayload;
+  } catch (error) {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || !ObjectId.isValid(payload.jti)) {
+    return null;
+  }
+
+  // Marking the token as used in the same query keeps two requests from both using it
+  const record = await UserToken.findOneAndUpdate(
+    {
+      _id: payload.jti,
+      user: payload.uid,
+      purpose,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() }
+  );
+
+  return record ? payload.uid : null;
+};
+
+// When the last token for a purpose was sent, used to space out resends
+export const getLastTokenSentAt = async (userId: any, purpose: EUserTokenPurpose): Promise<Date | null> => {
+  const record = await UserToken.findOne({ user: userId, purpose }).sort({ createdAt: -1 }).select('createdAt');
+  return record ? record.createdAt : null;
+};
+
+// Email a fresh verification link to a user who registered themselves
+export const sendVerificationLink = async (user: IUser): Promise<boolean> => {
+  const token = await createUserToken(user._id, EUserTokenPurpose.EMAIL_VERIFICATION);
+  return sendEmailVerificationEmail(
+    user,
+    getVerifyEmailUrl(token),
+    getUserTokenTtlHours(EUserTokenPurpose.EMAIL_VERIFICATION)
+  );
+};
+
+// Email a fresh invitation link to a user an admin added
+export const sendInvitationLink = async (user: IUser, invitedBy: { name: string }): Promise<boolean> => {
+  const token = await createUserToken(user._id, EUserTokenPurpose.INVITATION);
+  return sendUserInvitationEmail(
+    user,
+    invitedBy,
+    getAcceptInviteUrl(token),
+    getUserTokenTtlHours(EUserTokenPurpose.INVITATION)
+  );
+};
+
+// Email a password reset link, any earlier reset link stops working
+export const sendPasswordResetLink = async (user: IUser): Promise<boolean> => {
+  const token = await createUserToken(user._id, EUserTokenPurpose.PASSWORD_RESET);
+  return sendPasswordResetEmail(
+    user,
+    getResetPasswordUrl(token),
+    TOKEN_TTL_MINUTES[EUserTokenPurpose.PASSWORD_RESET]
+  );
+};